@@ -1,47 +1,91 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import MainMenu from './components/MainMenu'
 import GameWrapper from './components/GameWrapper'
 import ResultPage from './components/ResultPage'
 import TrainingHistory from './components/TrainingHistory'
-import { GameId, Difficulty, Scores, Page } from './types'
-import { loadBestScores, saveBestScore, saveRecord, loadRecords } from './utils/storage'
+import ProfilePicker from './components/ProfilePicker'
+import { GameId, Difficulty, GameOptions, Page, Profile } from './types'
+import {
+  loadBestScores, loadLatestScores, saveScore, saveRecord, loadRecords, emptyScoreTable,
+  loadProfiles, getActiveProfileId, setActiveProfileId, saveSnapshotIfComplete, completedRecords, SessionData,
+} from './utils/storage'
+import { subscribeUpgradeBlocked } from './utils/db'
 
 export default function App() {
-  const [page, setPage] = useState<Page>('menu')
+  const [page, setPage] = useState<Page>('profiles')
+  const [profiles, setProfiles] = useState<Profile[]>([])
+  const [profile, setProfile] = useState<Profile | null>(null)
   const [currentGame, setCurrentGame] = useState<GameId | null>(null)
   const [difficulty, setDifficulty] = useState<Difficulty>('normal')
-  const [bestScores, setBestScores] = useState(loadBestScores)
-  const [scores, setScores] = useState<Scores>(() => {
-    // 用 bestScores 恢复已完成状态，避免刷新后丢失
-    const initial = loadBestScores()
-    return {
-      memory: initial.memory !== null && initial.memory > 0 ? initial.memory : null,
-      schulte: initial.schulte !== null && initial.schulte > 0 ? initial.schulte : null,
-      stroop: initial.stroop !== null && initial.stroop > 0 ? initial.stroop : null,
-      wordSort: initial.wordSort !== null && initial.wordSort > 0 ? initial.wordSort : null,
-      pathMemory: initial.pathMemory !== null && initial.pathMemory > 0 ? initial.pathMemory : null,
-      reaction: initial.reaction !== null && initial.reaction > 0 ? initial.reaction : null,
-      digitSpan: initial.digitSpan !== null && initial.digitSpan > 0 ? initial.digitSpan : null,
-      arithmetic: initial.arithmetic !== null && initial.arithmetic > 0 ? initial.arithmetic : null,
-      patternReason: initial.patternReason !== null && initial.patternReason > 0 ? initial.patternReason : null,
-    }
-  })
-  const [recordCount, setRecordCount] = useState(() => loadRecords().length)
-
-  const startGame = useCallback((gameId: GameId, diff: Difficulty) => {
+  const [seed, setSeed] = useState<number | null>(null)
+  const [options, setOptions] = useState<GameOptions>({})
+  const [bestScores, setBestScores] = useState(emptyScoreTable)
+  const [latestScores, setLatestScores] = useState(emptyScoreTable)
+  const [recordCount, setRecordCount] = useState(0)
+  const [loaded, setLoaded] = useState(false)
+  const [upgradeBlocked, setUpgradeBlocked] = useState(false)
+
+  // 数据库升级被其他标签页挡住时提示用户，对方关闭后自动继续加载
+  useEffect(() => subscribeUpgradeBlocked(setUpgradeBlocked), [])
+
+  const refreshScores = useCallback(async (profileId: string) => {
+    const [best, latest, records] = await Promise.all([
+      loadBestScores(profileId), loadLatestScores(profileId), loadRecords(profileId),
+    ])
+    setBestScores(best)
+    setLatestScores(latest)
+    setRecordCount(completedRecords(records).length)
+  }, [])
+
+  // 启动时恢复上次使用的档案，没有则进入档案选择
+  useEffect(() => {
+    (async () => {
+      const [all, activeId] = await Promise.all([loadProfiles(), getActiveProfileId()])
+      setProfiles(all)
+      const active = all.find(p => p.id === activeId)
+      if (active) {
+        setProfile(active)
+        await refreshScores(active.id)
+        setPage('menu')
+      }
+    })().finally(() => setLoaded(true))
+  }, [refreshScores])
+
+  const refreshProfiles = useCallback(async () => {
+    const all = await loadProfiles()
+    setProfiles(all)
+    // 当前档案可能被改名或删除
+    setProfile(current => current && (all.find(p => p.id === current.id) ?? null))
+  }, [])
+
+  const selectProfile = useCallback(async (selected: Profile) => {
+    await setActiveProfileId(selected.id)
+    setProfile(selected)
+    await refreshScores(selected.id)
+    setPage('menu')
+  }, [refreshScores])
+
+  const showProfiles = useCallback(() => {
+    setPage('profiles')
+  }, [])
+
+  const startGame = useCallback((gameId: GameId, diff: Difficulty, fixedSeed: number | null, gameOptions: GameOptions) => {
     setCurrentGame(gameId)
     setDifficulty(diff)
+    setSeed(fixedSeed)
+    setOptions(gameOptions)
     setPage('game')
   }, [])
 
-  const finishGame = useCallback((gameId: GameId, score: number) => {
-    setScores(prev => ({ ...prev, [gameId]: score }))
-    saveBestScore(gameId, score)
-    saveRecord(gameId, difficulty, score)
-    setBestScores(loadBestScores())
-    setRecordCount(loadRecords().length)
+  const finishGame = useCallback(async (gameId: GameId, score: number, session: SessionData) => {
+    if (!profile) return
+    // 中途放弃的局只留记录，不更新成绩和画像
+    if (session.status === 'completed') await saveScore(profile.id, gameId, difficulty, score, session.options)
+    await saveRecord(profile.id, gameId, difficulty, score, session)
+    if (session.status === 'completed') await saveSnapshotIfComplete(profile.id)
+    await refreshScores(profile.id)
     setPage('menu')
-  }, [difficulty])
+  }, [profile, difficulty, refreshScores])
 
   const showResult = useCallback(() => {
     setPage('result')
@@ -55,33 +99,66 @@ export default function App() {
     setPage('menu')
   }, [])
 
+  // 训练记录页可能清除了数据，返回时重新读取
+  const backFromHistory = useCallback(async () => {
+    if (profile) await refreshScores(profile.id)
+    setPage('menu')
+  }, [profile, refreshScores])
+
+  if (!loaded) {
+    return upgradeBlocked ? (
+      <div className="app-container">
+        <div className="storage-blocked">
+          认知乐园已在其他标签页中打开，需要先关闭那些标签页才能更新本地数据。关闭后本页会自动继续。
+        </div>
+      </div>
+    ) : null
+  }
+
+  if (page === 'profiles' || !profile) {
+    return (
+      <ProfilePicker
+        profiles={profiles}
+        activeId={profile?.id ?? null}
+        onSelect={selectProfile}
+        onChange={refreshProfiles}
+        onBack={profile ? backToMenu : undefined}
+      />
+    )
+  }
+
   if (page === 'game' && currentGame) {
     return (
       <GameWrapper
+        profileId={profile.id}
         gameId={currentGame}
         difficulty={difficulty}
-        onFinish={(score) => finishGame(currentGame, score)}
+        seed={seed}
+        options={options}
+        onFinish={(score, session) => finishGame(currentGame, score, session)}
         onBack={backToMenu}
       />
     )
   }
 
   if (page === 'result') {
-    return <ResultPage scores={scores} onBack={backToMenu} />
+    return <ResultPage profile={profile} latestScores={latestScores} onBack={backToMenu} />
   }
 
   if (page === 'history') {
-    return <TrainingHistory onBack={backToMenu} />
+    return <TrainingHistory profile={profile} onBack={backFromHistory} />
   }
 
   return (
     <MainMenu
-      scores={scores}
+      profile={profile}
+      latestScores={latestScores}
       bestScores={bestScores}
       recordCount={recordCount}
       onStartGame={startGame}
       onShowResult={showResult}
       onShowHistory={showHistory}
+      onSwitchProfile={showProfiles}
     />
   )
 }
@@ -1,15 +1,53 @@
-import { Difficulty } from '../types'
+import { ComponentType, useState } from 'react'
+import { Difficulty, DIFFICULTY_LABELS, GameOptions } from '../types'
+import { GameOptionDef, GameSettingsProps } from '../games'
+import { parseSeed } from '../utils/random'
+import { Recommendation } from '../utils/recommend'
 
 interface DifficultySelectProps {
   gameName: string
   gameIcon: string
   howToPlay: string
-  onSelect: (difficulty: Difficulty) => void
+  /** 该游戏可选的难度 */
+  difficulties: Difficulty[]
+  /** 自适应难度调节的参数，如"数字位数" */
+  adaptiveParameter?: string
+  /** 难度之外的玩法选项 */
+  options?: GameOptionDef[]
+  /** 游戏自带的设置面板 */
+  settings?: ComponentType<GameSettingsProps>
+  /** 按历史记录为所选玩法推荐难度，记录加载中为 null */
+  recommend?: ((options: GameOptions) => Recommendation | null) | null
+  /** seed 为 null 时每局随机出题 */
+  onSelect: (difficulty: Difficulty, seed: number | null, options: GameOptions) => void
   onClose: () => void
   onShowIntro?: () => void
 }
 
-export default function DifficultySelect({ gameName, gameIcon, howToPlay, onSelect, onClose, onShowIntro }: DifficultySelectProps) {
+const DIFFICULTY_BLURBS: Record<Difficulty, string> = {
+  easy: '适合初次体验',
+  normal: '适合大多数人',
+  hard: '挑战你的极限',
+  adaptive: '随表现自动调整',
+}
+
+export default function DifficultySelect({ gameName, gameIcon, howToPlay, difficulties, adaptiveParameter, options = [], settings: Settings, recommend, onSelect, onClose, onShowIntro }: DifficultySelectProps) {
+  const [chosen, setChosen] = useState<GameOptions>(
+    () => Object.fromEntries(options.map((o) => [o.id, o.choices[0].value])),
+  )
+  const [settingsReady, setSettingsReady] = useState(true)
+  const [extraOptions, setExtraOptions] = useState<GameOptions>({})
+  const [seedText, setSeedText] = useState('')
+  const seed = parseSeed(seedText)
+  const seedInvalid = seedText.trim() !== '' && seed === null
+  // 推荐和理由针对当前选中的玩法，切换玩法时随之更新
+  const recommendation = recommend?.(chosen) ?? null
+
+  const select = (difficulty: Difficulty) => {
+    if (seedInvalid || !settingsReady) return
+    onSelect(difficulty, seed, { ...chosen, ...extraOptions })
+  }
+
   return (
     <div className="difficulty-overlay">
       <div className="difficulty-modal">
@@ -23,20 +61,61 @@ export default function DifficultySelect({ gameName, gameIcon, howToPlay, onSele
             了解科普知识 →
           </button>
         )}
+        {options.map((option) => (
+          <div key={option.id} className="difficulty-game-option">
+            <span className="difficulty-game-option-label">{option.label}</span>
+            <div className="difficulty-game-option-choices">
+              {option.choices.map((choice) => (
+                <button
+                  key={choice.value}
+                  className={chosen[option.id] === choice.value ? 'active' : ''}
+                  onClick={() => setChosen({ ...chosen, [option.id]: choice.value })}
+                >
+                  {choice.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        {Settings && <Settings options={chosen} onReadyChange={setSettingsReady} onExtraOptionsChange={setExtraOptions} />}
         <div className="difficulty-options">
-          <button className="difficulty-btn" onClick={() => onSelect('easy')}>
-            <strong>简单</strong>
-            <span>适合初次体验</span>
-          </button>
-          <button className="difficulty-btn" onClick={() => onSelect('normal')}>
-            <strong>普通</strong>
-            <span>推荐大多数人</span>
-          </button>
-          <button className="difficulty-btn" onClick={() => onSelect('hard')}>
-            <strong>困难</strong>
-            <span>挑战你的极限</span>
-          </button>
+          {difficulties.map((difficulty) => {
+            const recommended = recommendation?.difficulty === difficulty
+            return (
+              <button
+                key={difficulty}
+                className={`difficulty-btn ${recommended ? 'recommended' : ''}`}
+                disabled={!settingsReady}
+                onClick={() => select(difficulty)}
+              >
+                <strong>
+                  {DIFFICULTY_LABELS[difficulty]}
+                  {recommended && <em className="difficulty-recommend-badge">推荐</em>}
+                </strong>
+                <span>
+                  {difficulty === 'adaptive' && adaptiveParameter
+                    ? `${DIFFICULTY_BLURBS.adaptive}${adaptiveParameter}，得分为收敛阈值`
+                    : DIFFICULTY_BLURBS[difficulty]}
+                </span>
+              </button>
+            )
+          })}
         </div>
+        {recommendation && (
+          <div className="difficulty-recommend-reason">💡 {recommendation.reason}</div>
+        )}
+        {/* 复测时填入基线的题目编号，可得到完全相同的题目 */}
+        <details className="difficulty-seed">
+          <summary>指定题目编号</summary>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="留空则随机出题"
+            value={seedText}
+            onChange={(e) => setSeedText(e.target.value)}
+          />
+          {seedInvalid && <div className="difficulty-seed-error">请输入 0 ~ 4294967295 之间的整数</div>}
+        </details>
         <button className="btn btn-outline btn-block" onClick={onClose}>
           取消
         </button>
@@ -1,100 +1,216 @@
-import { useState, useCallback, useMemo } from 'react'
-import MemoryMatch from '../games/MemoryMatch'
-import SchulteGrid from '../games/SchulteGrid'
-import StroopTest from '../games/StroopTest'
-import WordSort from '../games/WordSort'
-import PathMemory from '../games/PathMemory'
-import ReactionTest from '../games/ReactionTest'
-import DigitSpan from '../games/DigitSpan'
-import ArithmeticChallenge from '../games/ArithmeticChallenge'
-import PatternReason from '../games/PatternReason'
-import { knowledgeCards } from '../data/knowledge'
-import { loadBestScores } from '../utils/storage'
-import { GameId, Difficulty, GAMES } from '../types'
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore, ComponentType } from 'react'
+import { loadBestScores, SessionData } from '../utils/storage'
+import { createRng, randomSeed } from '../utils/random'
+import { createGameClock } from '../utils/clock'
+import { GameId, Difficulty, GameMetrics, GameOptions, GameProgress, GameProps, TrialEvent, TrialInput, DIFFICULTY_LABELS } from '../types'
+import { describeOptions, getGame, scoreSlot } from '../games'
 
 interface GameWrapperProps {
+  profileId: string
   gameId: GameId
   difficulty: Difficulty
-  onFinish: (score: number) => void
+  /** 指定的种子，用于复现同一套题目；为 null 时每局随机 */
+  seed: number | null
+  /** 难度之外的玩法选项 */
+  options: GameOptions
+  /** 完成或中途退出时调用，session.status 区分两者 */
+  onFinish: (score: number, session: SessionData) => void
   onBack: () => void
 }
 
 type Phase = 'playing' | 'finished'
 
-export default function GameWrapper({ gameId, difficulty, onFinish, onBack }: GameWrapperProps) {
+export default function GameWrapper({ profileId, gameId, difficulty, seed, options, onFinish, onBack }: GameWrapperProps) {
   const [phase, setPhase] = useState<Phase>('playing')
   const [score, setScore] = useState(0)
+  const [metrics, setMetrics] = useState<GameMetrics>({})
+  // attempt 保证"再来一次"时即使种子相同也重新开始随机序列
+  const [session, setSession] = useState(() => ({ seed: seed ?? randomSeed(), attempt: 0 }))
+  const rng = useMemo(() => createRng(session.seed), [session])
+  const clock = useMemo(() => createGameClock(), [session])
+  const paused = useSyncExternalStore(clock.subscribe, clock.isPaused)
+  const [confirmLeave, setConfirmLeave] = useState(false)
 
-  const gameConfig = GAMES.find((g) => g.id === gameId)!
-  const cards = knowledgeCards[gameId]
+  const gameConfig = getGame(gameId)
+  const cards = gameConfig.knowledge
 
-  const randomCard = useMemo(
-    () => cards[Math.floor(Math.random() * cards.length)],
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    [gameId, score]
-  )
+  // 每局结束时随机换一张知识卡片
+  const [cardIndex, setCardIndex] = useState(0)
+  const randomCard = cards[cardIndex]
 
   const [bestScore, setBestScore] = useState<number | null>(null)
+  const trialsRef = useRef<TrialEvent[]>([])
+  const progressRef = useRef<GameProgress>({ round: 0, total: null, score: 0 })
+
+  const handleTrial = useCallback((event: TrialInput) => {
+    // 反应时扣除试次期间的暂停时长
+    const latency = event.latency === null || event.responseAt === null
+      ? event.latency
+      : event.latency - clock.pausedBetween(event.stimulusAt, event.responseAt)
+    trialsRef.current.push({ trial: trialsRef.current.length, ...event, latency })
+  }, [clock])
+
+  const handleProgress = useCallback((progress: GameProgress) => {
+    progressRef.current = progress
+  }, [])
 
-  const handleComplete = useCallback((finalScore: number) => {
-    const best = loadBestScores()[gameId]
-    setBestScore(best)
+  // 切到后台或窗口失焦时自动暂停，回来后由用户点击继续
+  useEffect(() => {
+    if (phase !== 'playing') return
+    const handleVisibility = () => {
+      if (document.hidden) clock.pause('hidden')
+    }
+    const handleBlur = () => clock.pause('blur')
+    document.addEventListener('visibilitychange', handleVisibility)
+    window.addEventListener('blur', handleBlur)
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility)
+      window.removeEventListener('blur', handleBlur)
+    }
+  }, [phase, clock])
+
+  // 最高纪录按难度和玩法分开，不同玩法的满分不同
+  const slot = scoreSlot(gameId, difficulty, options)
+  useEffect(() => {
+    loadBestScores(profileId).then(best => {
+      const entry = best[gameId][slot]
+      setBestScore(entry ? entry.score : null)
+    })
+  }, [profileId, gameId, slot])
+
+  const handleComplete = useCallback((finalScore: number, finalMetrics: GameMetrics = {}) => {
     setScore(finalScore)
+    setMetrics(finalMetrics)
+    setCardIndex(Math.floor(Math.random() * cards.length))
     setPhase('finished')
-  }, [gameId])
+  }, [cards.length])
 
   const handleRetry = useCallback(() => {
+    trialsRef.current = []
+    progressRef.current = { round: 0, total: null, score: 0 }
+    setSession(prev => ({ seed: seed ?? randomSeed(), attempt: prev.attempt + 1 }))
     setPhase('playing')
-  }, [])
+  }, [seed])
 
-  const renderGame = () => {
-    const gameProps = { difficulty, onComplete: handleComplete }
-
-    switch (gameId) {
-      case 'memory':
-        return <MemoryMatch {...gameProps} />
-      case 'schulte':
-        return <SchulteGrid {...gameProps} />
-      case 'stroop':
-        return <StroopTest {...gameProps} />
-      case 'wordSort':
-        return <WordSort {...gameProps} />
-      case 'pathMemory':
-        return <PathMemory {...gameProps} />
-      case 'reaction':
-        return <ReactionTest {...gameProps} />
-      case 'digitSpan':
-        return <DigitSpan {...gameProps} />
-      case 'arithmetic':
-        return <ArithmeticChallenge {...gameProps} />
-      case 'patternReason':
-        return <PatternReason {...gameProps} />
-    }
+  // 游戏进行中退出需要确认，确认期间暂停计时
+  const handleBack = () => {
+    if (phase !== 'playing') return onBack()
+    clock.pause('manual')
+    setConfirmLeave(true)
+  }
+
+  const handleCancelLeave = () => {
+    setConfirmLeave(false)
+    clock.resume()
   }
 
+  const handleAbandon = () => {
+    const { round, total, score: partialScore } = progressRef.current
+    onFinish(partialScore, {
+      trials: trialsRef.current,
+      seed: session.seed,
+      interruptions: clock.interruptions(),
+      status: 'abandoned',
+      progress: { round, total, trials: trialsRef.current.length },
+      options,
+      metrics: {},
+    })
+  }
+
+  // 只有登记了 adaptive 的游戏才会在难度选择中出现"自适应"，其余游戏收到的都是固定难度
+  const Game = gameConfig.component as ComponentType<GameProps>
+  const adaptive = difficulty === 'adaptive' ? gameConfig.adaptive : undefined
+  const formatScore = (value: number) => (adaptive ? adaptive.describe(value) : `${value}分`)
+
+  const optionsLabel = describeOptions(gameId, options)
+  const metricLabels = gameConfig.metrics ?? {}
+
+  const interruptions = phase === 'finished' ? clock.interruptions() : []
+  const pausedMs = interruptions.reduce((sum, i) => sum + i.duration, 0)
+
   return (
     <div className="app-container">
       <div className="game-header">
         <div className="game-header-left">
-          <button className="game-back-btn" onClick={onBack}>
+          <button className="game-back-btn" onClick={handleBack}>
             ←
           </button>
           <span className="game-title">{gameConfig.name}</span>
+          {optionsLabel && <span className="game-title-options">{optionsLabel}</span>}
         </div>
+        {phase === 'playing' && (
+          <button className="game-pause-btn" onClick={() => clock.pause('manual')} aria-label="暂停">
+            ⏸
+          </button>
+        )}
       </div>
 
-      {phase === 'playing' && renderGame()}
+      {phase === 'playing' && (
+        <Game
+          key={session.attempt}
+          difficulty={difficulty}
+          options={options}
+          rng={rng}
+          clock={clock}
+          onComplete={handleComplete}
+          onTrial={handleTrial}
+          onProgress={handleProgress}
+        />
+      )}
+
+      {phase === 'playing' && paused && !confirmLeave && (
+        <div className="pause-overlay">
+          <div className="pause-modal">
+            <div className="pause-icon">⏸</div>
+            <div className="pause-title">已暂停</div>
+            <div className="pause-hint">计时已停止，准备好后点击继续</div>
+            <button className="btn btn-primary btn-block" onClick={clock.resume}>
+              继续
+            </button>
+          </div>
+        </div>
+      )}
+
+      {confirmLeave && (
+        <div className="difficulty-overlay">
+          <div className="difficulty-modal">
+            <h3>退出本局？</h3>
+            <p style={{ color: 'var(--text-secondary)', margin: '16px 0' }}>
+              本局还没有完成，退出后将记为中途放弃，不计入成绩。
+            </p>
+            <div className="game-over-buttons">
+              <button className="btn btn-outline" onClick={handleCancelLeave}>继续游戏</button>
+              <button className="btn btn-primary" style={{ background: 'var(--error)' }} onClick={handleAbandon}>
+                退出
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
       {phase === 'finished' && (
         <div className="game-over-overlay">
           <div className="game-over-modal">
             <div className="game-over-score">{score}</div>
-            <div className="game-over-label">得分</div>
+            <div className="game-over-label">
+              {adaptive ? `收敛阈值（${adaptive.parameter} ${adaptive.describe(score)}）` : '得分'}
+            </div>
 
             {(bestScore === null || score > bestScore) ? (
               <div className="game-over-record">新纪录!</div>
             ) : (
-              <div className="game-over-best">最高纪录: {bestScore}分</div>
+              <div className="game-over-best">{DIFFICULTY_LABELS[difficulty]}难度{optionsLabel && `（${optionsLabel}）`}最高纪录: {formatScore(bestScore)}</div>
+            )}
+
+            {Object.keys(metrics).length > 0 && (
+              <div className="game-over-metrics">
+                {Object.entries(metrics).map(([key, value]) => (
+                  <div key={key} className="game-over-metric">
+                    <strong>{value}</strong>
+                    <span>{metricLabels[key] ?? key}</span>
+                  </div>
+                ))}
+              </div>
             )}
 
             <div className="knowledge-card">
@@ -102,8 +218,19 @@ export default function GameWrapper({ gameId, difficulty, onFinish, onBack }: Ga
               <div className="knowledge-card-content">{randomCard.content}</div>
             </div>
 
+            {interruptions.length > 0 && (
+              <div className="game-over-interruptions">
+                本局中断 {interruptions.length} 次，共 {Math.round(pausedMs / 1000)} 秒，已从计时中扣除
+              </div>
+            )}
+
+            <div className="game-over-seed">题目编号 {session.seed}</div>
+
             <div className="game-over-buttons">
-              <button className="btn btn-outline" onClick={() => onFinish(score)}>
+              <button className="btn btn-outline" onClick={() => onFinish(score, {
+                trials: trialsRef.current, seed: session.seed, interruptions, status: 'completed', progress: null,
+                options, metrics,
+              })}>
                 返回菜单
               </button>
               <button className="btn btn-accent" onClick={handleRetry}>
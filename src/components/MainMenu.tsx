@@ -1,35 +1,53 @@
-import { useState } from 'react'
-import { GameId, Difficulty, Scores, GAMES } from '../types'
-import { gameIntros, knowledgeCards } from '../data/knowledge'
+import { useState, useEffect } from 'react'
+import { GameId, Difficulty, GameOptions, Profile, ScoreTable, DIFFICULTY_LABELS } from '../types'
+import { GAMES, getGame, getDifficulties, scoreSlot } from '../games'
+import { getLatestEntry } from '../utils/scoring'
+import { getGameRecords, TrainingRecord } from '../utils/storage'
+import { recommendDifficulty } from '../utils/recommend'
 import DifficultySelect from './DifficultySelect'
 
 interface MainMenuProps {
-  scores: Scores
-  bestScores: Scores
+  profile: Profile
+  latestScores: ScoreTable
+  bestScores: ScoreTable
   recordCount: number
-  onStartGame: (gameId: GameId, difficulty: Difficulty) => void
+  onStartGame: (gameId: GameId, difficulty: Difficulty, seed: number | null, options: GameOptions) => void
   onShowResult: () => void
   onShowHistory: () => void
+  onSwitchProfile: () => void
 }
 
-export default function MainMenu({ scores, bestScores, recordCount, onStartGame, onShowResult, onShowHistory }: MainMenuProps) {
+export default function MainMenu({ profile, latestScores, bestScores, recordCount, onStartGame, onShowResult, onShowHistory, onSwitchProfile }: MainMenuProps) {
   const [selectedGame, setSelectedGame] = useState<GameId | null>(null)
   const [introGame, setIntroGame] = useState<GameId | null>(null)
   const [showAbout, setShowAbout] = useState(false)
+  const [gameRecords, setGameRecords] = useState<TrainingRecord[] | null>(null)
 
-  const allCompleted = GAMES.every((game) => scores[game.id] !== null)
+  // 打开难度选择时读取该游戏的历史记录，推荐随所选玩法在难度选择中计算
+  useEffect(() => {
+    setGameRecords(null)
+    if (!selectedGame) return
+    let cancelled = false
+    getGameRecords(profile.id, selectedGame).then((records) => {
+      if (!cancelled) setGameRecords(records)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [profile.id, selectedGame])
+
+  const isPlayed = (gameId: GameId) => getLatestEntry(latestScores[gameId]) !== null
+  const allCompleted = GAMES.every((game) => isPlayed(game.id))
 
-  const selectedGameConfig = selectedGame
-    ? GAMES.find((g) => g.id === selectedGame)
-    : null
+  const selectedGameConfig = selectedGame ? getGame(selectedGame) : null
 
-  const introGameConfig = introGame
-    ? GAMES.find((g) => g.id === introGame)
-    : null
+  const introGameConfig = introGame ? getGame(introGame) : null
 
-  const handleSelectDifficulty = (difficulty: Difficulty) => {
+  const domainCount = new Set(GAMES.map((g) => g.domain)).size
+
+  const handleSelectDifficulty = (difficulty: Difficulty, seed: number | null, options: GameOptions) => {
     if (selectedGame) {
-      onStartGame(selectedGame, difficulty)
+      onStartGame(selectedGame, difficulty, seed, options)
       setSelectedGame(null)
     }
   }
@@ -46,6 +64,10 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
           </div>
         </div>
         <div className="site-header-actions">
+          <button className="site-header-btn" onClick={onSwitchProfile} title="切换档案">
+            <span>{profile.avatar}</span>
+            <span className="site-header-profile-name">{profile.name}</span>
+          </button>
           <button className="site-header-btn" onClick={() => setShowAbout(true)}>
             <span>关于</span>
           </button>
@@ -59,8 +81,10 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
       {/* 游戏卡片 */}
       <div className="game-grid">
         {GAMES.map((game) => {
-          const best = bestScores[game.id]
-          const done = scores[game.id] !== null
+          // 徽章显示最近一次所玩难度和玩法下的最高分
+          const last = getLatestEntry(latestScores[game.id])
+          const best = last ? bestScores[game.id][scoreSlot(game.id, last.difficulty, last.options)] ?? null : null
+          const done = last !== null
           return (
             <div
               key={game.id}
@@ -77,9 +101,9 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
                 {game.domain}
               </div>
               <div className="game-card-desc">{game.description}</div>
-              {best !== null && best > 0 && (
+              {best !== null && best.score > 0 && (
                 <div className="game-card-best" style={{ color: game.color }}>
-                  ★ {best}分
+                  ★ {DIFFICULTY_LABELS[best.difficulty]} {best.score}分
                 </div>
               )}
             </div>
@@ -105,7 +129,7 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
               <strong>完成全部 {GAMES.length} 项训练，解锁认知画像</strong>
               <span>生成你的九维认知能力雷达图</span>
             </div>
-            <span className="radar-prompt-progress">{GAMES.filter(g => scores[g.id] !== null).length}/{GAMES.length}</span>
+            <span className="radar-prompt-progress">{GAMES.filter(g => isPlayed(g.id)).length}/{GAMES.length}</span>
           </div>
         )}
       </div>
@@ -121,6 +145,13 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
           gameName={selectedGameConfig.name}
           gameIcon={selectedGameConfig.icon}
           howToPlay={selectedGameConfig.howToPlay}
+          difficulties={getDifficulties(selectedGameConfig.id)}
+          adaptiveParameter={selectedGameConfig.adaptive?.parameter}
+          options={selectedGameConfig.options}
+          settings={selectedGameConfig.settings}
+          recommend={selectedGame && gameRecords
+            ? (options) => recommendDifficulty(selectedGame, gameRecords, options)
+            : null}
           onSelect={handleSelectDifficulty}
           onClose={() => setSelectedGame(null)}
           onShowIntro={() => {
@@ -129,7 +160,7 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
         />
       )}
 
-      {introGameConfig && introGame && (
+      {introGameConfig && (
         <div className="intro-overlay">
           <div className="intro-modal">
             <div className="intro-header">
@@ -144,12 +175,12 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
             <div className="intro-modal-body">
               <div className="intro-section">
                 <div className="intro-section-label">认知科普</div>
-                <p>{gameIntros[introGame].content}</p>
+                <p>{introGameConfig.intro.content}</p>
               </div>
               <div className="intro-section">
                 <div className="intro-section-label">健康贴士</div>
                 <div className="intro-tips">
-                  {knowledgeCards[introGame].map((card) => (
+                  {introGameConfig.knowledge.map((card) => (
                     <div key={card.id} className="intro-tip">
                       <div className="intro-tip-title">{card.title}</div>
                       <div className="intro-tip-content">{card.content}</div>
@@ -182,25 +213,19 @@ export default function MainMenu({ scores, bestScores, recordCount, onStartGame,
               </div>
               <div className="about-section">
                 <div className="about-label">作品简介</div>
-                <p>"认知乐园"是一款面向全年龄公众的认知训练科普 Web 应用。包含 {GAMES.length} 个小游戏，覆盖 9 大认知功能域，每个游戏基于临床循证的认知评估/训练范式改编，兼具科学性与趣味性。完成全部游戏后生成个人"认知能力画像"（九维雷达图）。</p>
+                <p>"认知乐园"是一款面向全年龄公众的认知训练科普 Web 应用。包含 {GAMES.length} 个小游戏，覆盖 {domainCount} 大认知功能域，每个游戏基于临床循证的认知评估/训练范式改编，兼具科学性与趣味性。完成全部游戏后生成个人"认知能力画像"（九维雷达图）。</p>
               </div>
               <div className="about-section">
                 <div className="about-label">游戏与临床原型</div>
                 <table className="about-table">
                   <thead><tr><th>游戏</th><th>认知域</th><th>临床原型</th></tr></thead>
                   <tbody>
-                    <tr><td>记忆翻翻乐</td><td>记忆力</td><td>配对记忆任务</td></tr>
-                    <tr><td>舒尔特方格</td><td>注意力</td><td>Schulte Grid</td></tr>
-                    <tr><td>颜色词挑战</td><td>执行功能</td><td>Stroop 色词测验</td></tr>
-                    <tr><td>词语分类</td><td>语言能力</td><td>语义分类任务</td></tr>
-                    <tr><td>路径记忆</td><td>视空间</td><td>Corsi Block Task</td></tr>
-                    <tr><td>闪电反应</td><td>处理速度</td><td>简单反应时测试</td></tr>
-                    <tr><td>数字倒背</td><td>工作记忆</td><td>数字广度倒背测验</td></tr>
-                    <tr><td>心算挑战</td><td>计算能力</td><td>限时心算任务</td></tr>
-                    <tr><td>图形推理</td><td>推理判断</td><td>类 Raven 矩阵推理</td></tr>
+                    {GAMES.map((game) => (
+                      <tr key={game.id}><td>{game.name}</td><td>{game.domain}</td><td>{game.prototype}</td></tr>
+                    ))}
                   </tbody>
                 </table>
-                <p style={{ marginTop: 8, fontSize: '0.8rem', color: 'var(--text-secondary)' }}>每个游戏提供 3 个难度等级（简单/普通/困难），适配儿童到老年人。</p>
+                <p style={{ marginTop: 8, fontSize: '0.8rem', color: 'var(--text-secondary)' }}>每个游戏提供 3 个难度等级（简单/普通/困难），适配儿童到老年人；部分游戏另有自适应难度，按作答对错逐步调整，得分为收敛到的能力阈值。</p>
               </div>
               <div className="about-section">
                 <div className="about-label">设计理念</div>
@@ -0,0 +1,54 @@
+import { Panel, SHAPE_SIDES } from '../utils/matrix'
+
+interface Props {
+  panel: Panel
+}
+
+const VIEW = 100
+/** 格内 3×3 小格的中心坐标 */
+const SLOT_CENTERS = [20, 50, 80]
+/** 三档大小对应的外接圆半径 */
+const RADII = [7, 10, 13]
+/** 由浅到深的四档填充色，描边统一用深色以保证浅色图形可见 */
+const FILLS = ['#FFFFFF', '#BDC3C7', '#7F8C8D', '#2C3E50']
+const STROKE = '#2C3E50'
+/** 每档角度旋转 30°，三角形旋转 120° 才重合，四档都能分辨 */
+const ROTATION_STEP = 30
+
+function polygonPoints(sides: number, cx: number, cy: number, r: number): string {
+  // 从正上方起画，正方形等偶数边形转半格使底边水平
+  const offset = -Math.PI / 2 + (sides % 2 === 0 ? Math.PI / sides : 0)
+  return Array.from({ length: sides }, (_, i) => {
+    const angle = offset + (2 * Math.PI * i) / sides
+    return `${(cx + r * Math.cos(angle)).toFixed(2)},${(cy + r * Math.sin(angle)).toFixed(2)}`
+  }).join(' ')
+}
+
+/** 瑞文矩阵的一格，用 SVG 绘制 */
+export default function MatrixPanel({ panel }: Props) {
+  const sides = SHAPE_SIDES[panel.shape]
+  const r = RADII[panel.size]
+  const fill = FILLS[panel.color]
+
+  return (
+    <svg className="matrix-panel" viewBox={`0 0 ${VIEW} ${VIEW}`} role="img">
+      {panel.positions.map(slot => {
+        const cx = SLOT_CENTERS[slot % 3]
+        const cy = SLOT_CENTERS[Math.floor(slot / 3)]
+        return sides === 0 ? (
+          <circle key={slot} cx={cx} cy={cy} r={r} fill={fill} stroke={STROKE} strokeWidth={1.5} />
+        ) : (
+          <polygon
+            key={slot}
+            points={polygonPoints(sides, cx, cy, r)}
+            fill={fill}
+            stroke={STROKE}
+            strokeWidth={1.5}
+            strokeLinejoin="round"
+            transform={`rotate(${panel.rotation * ROTATION_STEP} ${cx} ${cy})`}
+          />
+        )
+      })}
+    </svg>
+  )
+}
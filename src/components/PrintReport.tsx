@@ -0,0 +1,125 @@
+import RadarChart, { RadarSeries } from './RadarChart'
+import TrendChart from './TrendChart'
+import { CognitiveProfile, getLatestEntry } from '../utils/scoring'
+import { TrainingRecord } from '../utils/storage'
+import { DIFFICULTY_LABELS, EDUCATION_LABELS, Profile, ScoreTable } from '../types'
+import { GAMES, describeOptions, getMaxScore, scoreSlot } from '../games'
+
+interface Props {
+  profile: Profile
+  cognitive: CognitiveProfile
+  latestScores: ScoreTable
+  series: RadarSeries
+  average: number
+  ratingText: string
+  records: TrainingRecord[]
+}
+
+/** 能力分低于此值的认知域在报告中给出训练建议 */
+const WEAK_ABILITY = 60
+/** 没有低于阈值的认知域时，仍针对得分最低的几项给出建议 */
+const MIN_TIPS_DOMAINS = 2
+
+function formatDate(ts: number): string {
+  const d = new Date(ts)
+  return `${d.getFullYear()}年${d.getMonth() + 1}月${d.getDate()}日`
+}
+
+/** 打印报告：屏幕上隐藏，仅在打印时显示 */
+export default function PrintReport({ profile, cognitive, latestScores, series, average, ratingText, records }: Props) {
+  const played = GAMES.filter((game) => cognitive[game.id] !== null)
+  const ranked = [...played].sort((a, b) => cognitive[a.id]!.ability - cognitive[b.id]!.ability)
+  const weak = ranked.filter((game) => cognitive[game.id]!.ability < WEAK_ABILITY)
+  const tipGames = weak.length > 0 ? weak : ranked.slice(0, MIN_TIPS_DOMAINS)
+
+  const demographics = [
+    profile.birthYear !== null && `${new Date().getFullYear() - profile.birthYear} 岁`,
+    profile.education && EDUCATION_LABELS[profile.education],
+  ].filter(Boolean).join(' · ')
+
+  return (
+    <div className="print-report">
+      {/* 第 1 页：概览 */}
+      <section className="print-page">
+        <h1>认知乐园 · 认知训练报告</h1>
+        <div className="print-meta">
+          <span>{profile.avatar} {profile.name}{demographics && `（${demographics}）`}</span>
+          <span>生成日期：{formatDate(Date.now())}</span>
+        </div>
+
+        <div className="print-radar">
+          <RadarChart series={[series]} />
+        </div>
+        <div className="print-summary">{ratingText} · 综合评分 {average} 分</div>
+
+        <h2>各认知域得分</h2>
+        <table className="print-table">
+          <thead>
+            <tr><th>认知域</th><th>游戏</th><th>难度</th><th>原始分</th><th>能力分</th></tr>
+          </thead>
+          <tbody>
+            {GAMES.map((game) => {
+              const entry = cognitive[game.id]
+              return (
+                <tr key={game.id}>
+                  <td>{game.domain}</td>
+                  <td>{game.name}</td>
+                  <td>{entry ? DIFFICULTY_LABELS[entry.difficulty] : '—'}</td>
+                  <td>{entry ? entry.rawScore : '—'}</td>
+                  <td>{entry ? entry.ability : '—'}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+        <p className="print-note">能力分按难度折算为 0-100：简单满分计 60，普通计 80，困难计 100。</p>
+      </section>
+
+      {/* 第 2 页：训练趋势，每项取最近一次训练的难度和玩法 */}
+      <section className="print-page">
+        <h2>训练趋势</h2>
+        <div className="print-trends">
+          {GAMES.map((game) => {
+            const last = getLatestEntry(latestScores[game.id])
+            if (!last) return null
+            const slot = scoreSlot(game.id, last.difficulty, last.options)
+            const history = records.filter((r) => r.gameId === game.id && scoreSlot(game.id, r.difficulty, r.options) === slot)
+            const optionsLabel = last.options ? describeOptions(game.id, last.options) : null
+            if (history.length === 0) return null
+            return (
+              <div key={game.id} className="print-trend">
+                <div className="print-trend-title">
+                  {game.domain} · {game.name}（{DIFFICULTY_LABELS[last.difficulty]}{optionsLabel && ` · ${optionsLabel}`}，共 {history.length} 次）
+                </div>
+                <TrendChart records={history} color={game.color} maxScore={getMaxScore(game.id, last.difficulty, last.options)} />
+              </div>
+            )
+          })}
+        </div>
+      </section>
+
+      {/* 第 3 页：针对薄弱项的建议 */}
+      {tipGames.length > 0 && (
+        <section className="print-page">
+          <h2>训练建议</h2>
+          <p className="print-note">
+            {weak.length > 0
+              ? `以下认知域能力分低于 ${WEAK_ABILITY}，建议作为近期训练重点：`
+              : '各项表现均衡，以下为相对较弱的认知域，可适当加强：'}
+          </p>
+          {tipGames.map((game) => (
+            <div key={game.id} className="print-tips">
+              <h3>{game.domain}（{game.name}，能力分 {cognitive[game.id]!.ability}）</h3>
+              <ul>
+                {game.knowledge.map((card) => (
+                  <li key={card.id}><strong>{card.title}：</strong>{card.content}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <p className="print-note">本报告由认知训练游戏生成，仅供参考，不能替代专业评估。如有记忆或认知方面的困扰，请咨询专业医生。</p>
+        </section>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { Education, Profile, EDUCATION_LABELS } from '../types'
+import { createProfile, updateProfile, deleteProfile } from '../utils/storage'
+
+interface ProfilePickerProps {
+  profiles: Profile[]
+  activeId: string | null
+  onSelect: (profile: Profile) => void
+  /** 档案被新建、修改或删除后调用，由上层重新读取列表 */
+  onChange: () => Promise<void>
+  /** 已有当前档案时可返回主菜单 */
+  onBack?: () => void
+}
+
+const AVATARS = ['🙂', '👴', '👵', '👨', '👩', '👦', '👧', '🐼', '🐱', '🐶', '🌻', '⭐']
+
+const CURRENT_YEAR = new Date().getFullYear()
+
+interface FormState {
+  name: string
+  avatar: string
+  birthYear: string
+  education: Education | ''
+}
+
+const EMPTY_FORM: FormState = { name: '', avatar: AVATARS[0], birthYear: '', education: '' }
+
+function toForm(profile: Profile): FormState {
+  return {
+    name: profile.name,
+    avatar: profile.avatar,
+    birthYear: profile.birthYear === null ? '' : String(profile.birthYear),
+    education: profile.education ?? '',
+  }
+}
+
+function describe(profile: Profile): string {
+  const parts: string[] = []
+  if (profile.birthYear !== null) parts.push(`${CURRENT_YEAR - profile.birthYear} 岁`)
+  if (profile.education) parts.push(EDUCATION_LABELS[profile.education])
+  return parts.join(' · ')
+}
+
+export default function ProfilePicker({ profiles, activeId, onSelect, onChange, onBack }: ProfilePickerProps) {
+  // null：未在编辑；'new'：新建；其他：正在编辑的档案 id
+  const [editing, setEditing] = useState<string | null>(profiles.length === 0 ? 'new' : null)
+  const [form, setForm] = useState<FormState>(EMPTY_FORM)
+  const [deleting, setDeleting] = useState<Profile | null>(null)
+
+  const birthYear = form.birthYear.trim() === '' ? null : Number(form.birthYear)
+  const birthYearValid = birthYear === null ||
+    (Number.isInteger(birthYear) && birthYear >= 1900 && birthYear <= CURRENT_YEAR)
+  const canSave = form.name.trim() !== '' && birthYearValid
+
+  const startCreate = () => {
+    setForm(EMPTY_FORM)
+    setEditing('new')
+  }
+
+  const startEdit = (profile: Profile) => {
+    setForm(toForm(profile))
+    setEditing(profile.id)
+  }
+
+  const handleSave = async () => {
+    if (!canSave) return
+    const fields = {
+      name: form.name.trim(),
+      avatar: form.avatar,
+      birthYear,
+      education: form.education || null,
+    }
+    if (editing === 'new') {
+      const created = await createProfile(fields)
+      await onChange()
+      setEditing(null)
+      onSelect(created)
+      return
+    }
+    const original = profiles.find(p => p.id === editing)
+    if (original) await updateProfile({ ...original, ...fields })
+    await onChange()
+    setEditing(null)
+  }
+
+  const handleDelete = async () => {
+    if (!deleting) return
+    await deleteProfile(deleting.id)
+    setDeleting(null)
+    await onChange()
+  }
+
+  return (
+    <div className="app-container">
+      <div className="game-header">
+        <div className="game-header-left">
+          {onBack && <button className="game-back-btn" onClick={onBack}>←</button>}
+          <span className="game-title">选择档案</span>
+        </div>
+      </div>
+
+      <p className="profile-intro">每位训练者使用自己的档案，训练记录和认知画像分开保存。</p>
+
+      <div className="profile-list">
+        {profiles.map(profile => (
+          <div
+            key={profile.id}
+            className={`profile-item${profile.id === activeId ? ' active' : ''}`}
+          >
+            <button className="profile-item-main" onClick={() => onSelect(profile)}>
+              <span className="profile-avatar">{profile.avatar}</span>
+              <span className="profile-item-info">
+                <span className="profile-item-name">{profile.name}</span>
+                {describe(profile) && <span className="profile-item-meta">{describe(profile)}</span>}
+              </span>
+            </button>
+            <button className="profile-item-action" onClick={() => startEdit(profile)}>编辑</button>
+            <button className="profile-item-action danger" onClick={() => setDeleting(profile)}>删除</button>
+          </div>
+        ))}
+      </div>
+
+      <button className="btn btn-primary btn-block" onClick={startCreate}>
+        ＋ 新建档案
+      </button>
+
+      {/* 新建 / 编辑弹窗 */}
+      {editing && (
+        <div className="difficulty-overlay">
+          <div className="difficulty-modal profile-form">
+            <h3>{editing === 'new' ? '新建档案' : '编辑档案'}</h3>
+
+            <label className="profile-field">
+              <span className="profile-field-label">名字</span>
+              <input
+                className="profile-input"
+                value={form.name}
+                maxLength={20}
+                placeholder="例如：奶奶"
+                onChange={e => setForm({ ...form, name: e.target.value })}
+              />
+            </label>
+
+            <div className="profile-field">
+              <span className="profile-field-label">头像</span>
+              <div className="profile-avatar-grid">
+                {AVATARS.map(avatar => (
+                  <button
+                    key={avatar}
+                    className={`profile-avatar-option${form.avatar === avatar ? ' active' : ''}`}
+                    onClick={() => setForm({ ...form, avatar })}
+                  >
+                    {avatar}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="profile-field">
+              <span className="profile-field-label">出生年份（选填）</span>
+              <input
+                className="profile-input"
+                type="number"
+                inputMode="numeric"
+                value={form.birthYear}
+                placeholder={`例如：${CURRENT_YEAR - 65}`}
+                onChange={e => setForm({ ...form, birthYear: e.target.value })}
+              />
+              {!birthYearValid && <span className="profile-field-error">请输入 1900 到 {CURRENT_YEAR} 之间的年份</span>}
+            </label>
+
+            <label className="profile-field">
+              <span className="profile-field-label">文化程度（选填）</span>
+              <select
+                className="profile-input"
+                value={form.education}
+                onChange={e => setForm({ ...form, education: e.target.value as Education | '' })}
+              >
+                <option value="">不填写</option>
+                {(Object.keys(EDUCATION_LABELS) as Education[]).map(key => (
+                  <option key={key} value={key}>{EDUCATION_LABELS[key]}</option>
+                ))}
+              </select>
+            </label>
+
+            <p className="profile-form-note">出生年份和文化程度只保存在本设备，显示在打印报告中。</p>
+
+            <div className="game-over-buttons">
+              {profiles.length > 0 && (
+                <button className="btn btn-outline" onClick={() => setEditing(null)}>取消</button>
+              )}
+              <button className="btn btn-primary" onClick={handleSave} disabled={!canSave}>保存</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* 删除确认 */}
+      {deleting && (
+        <div className="difficulty-overlay">
+          <div className="difficulty-modal">
+            <h3>删除档案</h3>
+            <p style={{ color: 'var(--text-secondary)', margin: '16px 0' }}>
+              将删除“{deleting.name}”及其全部训练记录，此操作不可撤销。
+            </p>
+            <div className="game-over-buttons">
+              <button className="btn btn-outline" onClick={() => setDeleting(null)}>取消</button>
+              <button className="btn btn-primary" style={{ background: 'var(--error)' }} onClick={handleDelete}>
+                确认删除
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
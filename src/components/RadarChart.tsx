@@ -1,30 +1,20 @@
-import React, { useRef, useEffect } from 'react'
+import React, { useRef, useEffect, useMemo, useState } from 'react'
+import { GameId } from '../types'
+import { GAMES } from '../games'
+
+export interface RadarSeries {
+  id: string
+  label: string
+  color: string
+  scores: Record<GameId, number>
+}
 
 interface Props {
-  scores: {
-    memory: number
-    schulte: number
-    stroop: number
-    wordSort: number
-    pathMemory: number
-    reaction: number
-    digitSpan: number
-    arithmetic: number
-    patternReason: number
-  }
+  /** 第一组为主数据，轴标签上的分数取自第一组可见数据 */
+  series: RadarSeries[]
 }
 
-const DIMENSIONS = [
-  { key: 'memory', label: '记忆力', color: '#9B59B6' },
-  { key: 'schulte', label: '注意力', color: '#3498DB' },
-  { key: 'stroop', label: '执行功能', color: '#E74C3C' },
-  { key: 'wordSort', label: '语言能力', color: '#2ECC71' },
-  { key: 'pathMemory', label: '视空间', color: '#F39C12' },
-  { key: 'reaction', label: '处理速度', color: '#E67E22' },
-  { key: 'digitSpan', label: '工作记忆', color: '#1ABC9C' },
-  { key: 'arithmetic', label: '计算能力', color: '#8E44AD' },
-  { key: 'patternReason', label: '推理判断', color: '#2C3E50' },
-] as const
+const DIMENSIONS = GAMES.map((game) => ({ key: game.id, label: game.domain, color: game.color }))
 
 const N = DIMENSIONS.length
 const SIZE = 460
@@ -39,8 +29,25 @@ function getVertex(index: number, radius: number): [number, number] {
   return [CX + radius * Math.cos(angle), CY + radius * Math.sin(angle)]
 }
 
-const RadarChart: React.FC<Props> = ({ scores }) => {
+function withAlpha(hex: string, alpha: number): string {
+  const value = parseInt(hex.slice(1), 16)
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`
+}
+
+const RadarChart: React.FC<Props> = ({ series }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+
+  const visible = useMemo(() => series.filter((s) => !hidden.has(s.id)), [series, hidden])
+
+  const toggle = (id: string) => {
+    setHidden((prev) => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
 
   useEffect(() => {
     const canvas = canvasRef.current
@@ -87,58 +94,47 @@ const RadarChart: React.FC<Props> = ({ scores }) => {
       ctx.stroke()
     }
 
-    // Compute data vertices
-    const scoreValues = DIMENSIONS.map(
-      (dim) => scores[dim.key as keyof typeof scores] ?? 0
-    )
-    const dataVertices = scoreValues.map((score, i) => {
-      const clamped = Math.max(0, Math.min(100, score))
-      const r = (clamped / 100) * MAX_RADIUS
-      return getVertex(i, r)
-    })
+    // Draw series back to front so the primary series ends up on top
+    for (const [index, s] of [...visible].reverse().entries()) {
+      const isPrimary = index === visible.length - 1
+      const dataVertices = DIMENSIONS.map((dim, i) => {
+        const clamped = Math.max(0, Math.min(100, s.scores[dim.key] ?? 0))
+        return getVertex(i, (clamped / 100) * MAX_RADIUS)
+      })
 
-    // Draw data polygon fill
-    ctx.beginPath()
-    for (let i = 0; i < N; i++) {
-      const [x, y] = dataVertices[i]
-      if (i === 0) {
-        ctx.moveTo(x, y)
-      } else {
-        ctx.lineTo(x, y)
+      ctx.beginPath()
+      for (let i = 0; i < N; i++) {
+        const [x, y] = dataVertices[i]
+        if (i === 0) {
+          ctx.moveTo(x, y)
+        } else {
+          ctx.lineTo(x, y)
+        }
       }
-    }
-    ctx.closePath()
-    ctx.fillStyle = 'rgba(74, 144, 217, 0.25)'
-    ctx.fill()
+      ctx.closePath()
+      ctx.fillStyle = withAlpha(s.color, isPrimary ? 0.25 : 0.08)
+      ctx.fill()
+      ctx.strokeStyle = s.color
+      ctx.lineWidth = isPrimary ? 2.5 : 1.5
+      ctx.setLineDash(isPrimary ? [] : [5, 4])
+      ctx.stroke()
+      ctx.setLineDash([])
 
-    // Draw data polygon stroke
-    ctx.beginPath()
-    for (let i = 0; i < N; i++) {
-      const [x, y] = dataVertices[i]
-      if (i === 0) {
-        ctx.moveTo(x, y)
-      } else {
-        ctx.lineTo(x, y)
+      // Draw dots at each data vertex
+      for (let i = 0; i < N; i++) {
+        const [x, y] = dataVertices[i]
+        ctx.beginPath()
+        ctx.arc(x, y, isPrimary ? 4 : 2.5, 0, Math.PI * 2)
+        ctx.fillStyle = isPrimary ? DIMENSIONS[i].color : s.color
+        ctx.fill()
       }
     }
-    ctx.closePath()
-    ctx.strokeStyle = '#4A90D9'
-    ctx.lineWidth = 2.5
-    ctx.stroke()
 
-    // Draw dots at each data vertex
-    for (let i = 0; i < N; i++) {
-      const [x, y] = dataVertices[i]
-      ctx.beginPath()
-      ctx.arc(x, y, 4, 0, Math.PI * 2)
-      ctx.fillStyle = DIMENSIONS[i].color
-      ctx.fill()
-    }
+    const primary = visible[0]
 
     // Draw labels at each outer vertex
     for (let i = 0; i < N; i++) {
       const dim = DIMENSIONS[i]
-      const score = Math.round(Math.max(0, Math.min(100, scoreValues[i])))
       const [vx, vy] = getVertex(i, MAX_RADIUS)
 
       const offsetDistance = 34
@@ -166,19 +162,38 @@ const RadarChart: React.FC<Props> = ({ scores }) => {
       ctx.fillText(dim.label, lx, ly)
 
       // Draw score below label
-      const scoreOffsetY = textBaseline === 'bottom' ? -15 : 15
-      ctx.font = `bold 13px ${FONT_FAMILY}`
-      ctx.fillStyle = dim.color
-      ctx.fillText(String(score), lx, ly + scoreOffsetY)
+      if (primary) {
+        const score = Math.round(Math.max(0, Math.min(100, primary.scores[dim.key] ?? 0)))
+        const scoreOffsetY = textBaseline === 'bottom' ? -15 : 15
+        ctx.font = `bold 13px ${FONT_FAMILY}`
+        ctx.fillStyle = dim.color
+        ctx.fillText(String(score), lx, ly + scoreOffsetY)
+      }
     }
-  }, [scores])
+  }, [visible])
 
   return (
-    <div style={{ display: 'flex', justifyContent: 'center' }}>
-      <canvas
-        ref={canvasRef}
-        className="radar-canvas"
-      />
+    <div>
+      <div style={{ display: 'flex', justifyContent: 'center' }}>
+        <canvas
+          ref={canvasRef}
+          className="radar-canvas"
+        />
+      </div>
+      {series.length > 1 && (
+        <div className="radar-legend">
+          {series.map((s) => (
+            <button
+              key={s.id}
+              className={`radar-legend-item${hidden.has(s.id) ? ' off' : ''}`}
+              onClick={() => toggle(s.id)}
+            >
+              <i style={{ background: s.color }} />
+              {s.label}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,65 +1,167 @@
-import RadarChart from './RadarChart'
-import { normalizeScore, getRating } from '../utils/scoring'
-import { GAMES, Scores } from '../types'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import RadarChart, { RadarSeries } from './RadarChart'
+import PrintReport from './PrintReport'
+import { buildProfile, profileAverage, getRating } from '../utils/scoring'
+import { loadSnapshots, loadRecords, completedRecords, ProfileSnapshot, TrainingRecord } from '../utils/storage'
+import { renderResultImage } from '../utils/shareImage'
+import { downloadBlob } from '../utils/transfer'
+import { GameId, DIFFICULTY_LABELS, Profile, ScoreTable } from '../types'
+import { GAMES } from '../games'
 
 interface ResultPageProps {
-  scores: Scores
+  profile: Profile
+  latestScores: ScoreTable
   onBack: () => void
 }
 
-export default function ResultPage({ scores, onBack }: ResultPageProps) {
-  const normalizedScores = {
-    memory: scores.memory !== null ? normalizeScore('memory', 'normal', scores.memory) : 0,
-    schulte: scores.schulte !== null ? normalizeScore('schulte', 'normal', scores.schulte) : 0,
-    stroop: scores.stroop !== null ? normalizeScore('stroop', 'normal', scores.stroop) : 0,
-    wordSort: scores.wordSort !== null ? normalizeScore('wordSort', 'normal', scores.wordSort) : 0,
-    pathMemory: scores.pathMemory !== null ? normalizeScore('pathMemory', 'normal', scores.pathMemory) : 0,
-    reaction: scores.reaction !== null ? normalizeScore('reaction', 'normal', scores.reaction) : 0,
-    digitSpan: scores.digitSpan !== null ? normalizeScore('digitSpan', 'normal', scores.digitSpan) : 0,
-    arithmetic: scores.arithmetic !== null ? normalizeScore('arithmetic', 'normal', scores.arithmetic) : 0,
-    patternReason: scores.patternReason !== null ? normalizeScore('patternReason', 'normal', scores.patternReason) : 0,
+const MONTH_MS = 30 * 24 * 60 * 60 * 1000
+
+function shortDate(ts: number): string {
+  const d = new Date(ts)
+  return `${d.getMonth() + 1}/${d.getDate()}`
+}
+
+/** 当前画像之外，叠加上次、约一个月前和首次的快照作对比 */
+function buildSeries(current: Record<GameId, number>, snapshots: ProfileSnapshot[], lastPlayed: number): RadarSeries[] {
+  const series: RadarSeries[] = [{ id: 'current', label: '本次', color: '#4A90D9', scores: current }]
+  // 最后一次训练之后保存的快照就是当前画像本身，不再重复显示
+  const earlier = snapshots.filter((s) => s.timestamp < lastPlayed)
+  const previous = earlier[earlier.length - 1]
+  const monthAgo = [...earlier].reverse().find((s) => s.timestamp <= Date.now() - MONTH_MS)
+  const first = earlier[0]
+
+  const used = new Set<string>()
+  const add = (snapshot: ProfileSnapshot | undefined, label: string, color: string) => {
+    if (!snapshot || used.has(snapshot.id)) return
+    used.add(snapshot.id)
+    series.push({ id: snapshot.id, label: `${label} ${shortDate(snapshot.timestamp)}`, color, scores: snapshot.abilities })
   }
+  add(previous, '上次', '#F39C12')
+  add(monthAgo, '一个月前', '#9B59B6')
+  add(first, '首次', '#95A5A6')
+  return series
+}
+
+export default function ResultPage({ profile, latestScores, onBack }: ResultPageProps) {
+  const [snapshots, setSnapshots] = useState<ProfileSnapshot[]>([])
+  const [records, setRecords] = useState<TrainingRecord[]>([])
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const radarRef = useRef<HTMLDivElement>(null)
 
-  const playedGames = GAMES.filter((game) => scores[game.id] !== null)
-  const average =
-    playedGames.length > 0
-      ? Math.round(
-          playedGames.reduce((sum, game) => {
-            return sum + normalizeScore(game.id, 'normal', scores[game.id]!)
-          }, 0) / playedGames.length
-        )
-      : 0
+  useEffect(() => {
+    loadSnapshots(profile.id).then(setSnapshots)
+    loadRecords(profile.id).then((all) => setRecords(completedRecords(all)))
+  }, [profile.id])
+
+  const cognitive = useMemo(() => buildProfile(latestScores), [latestScores])
+
+  const abilityScores = useMemo(() => Object.fromEntries(
+    GAMES.map((game) => [game.id, cognitive[game.id]?.ability ?? 0])
+  ) as Record<GameId, number>, [cognitive])
+
+  const average = profileAverage(cognitive)
+
+  const series = useMemo(() => {
+    const lastPlayed = Math.max(0, ...GAMES.flatMap((game) =>
+      Object.values(latestScores[game.id]).map((entry) => entry?.timestamp ?? 0)
+    ))
+    return buildSeries(abilityScores, snapshots, lastPlayed)
+  }, [abilityScores, latestScores, snapshots])
 
   const rating = getRating(average)
+  const today = new Date()
+
+  const handleSaveImage = async () => {
+    const radarCanvas = radarRef.current?.querySelector('canvas')
+    if (!radarCanvas) return
+    setSaving(true)
+    setSaveError(null)
+    try {
+      const blob = await renderResultImage({
+        radarCanvas,
+        profileName: profile.name,
+        ratingText: `${rating.emoji} ${rating.label}`,
+        average,
+        message: rating.message,
+        date: today,
+      })
+      const date = `${today.getFullYear()}${String(today.getMonth() + 1).padStart(2, '0')}${String(today.getDate()).padStart(2, '0')}`
+      downloadBlob(`认知画像-${profile.name}-${date}.png`, blob)
+    } catch {
+      setSaveError('图片生成失败，请重试或使用打印报告')
+    } finally {
+      setSaving(false)
+    }
+  }
 
   return (
-    <div className="app-container">
-      {/* 可截图分享的卡片区域 */}
-      <div className="result-card">
-        <div className="result-card-header">
-          <span className="result-card-logo">🧠</span>
-          <div>
-            <div className="result-card-title">认知乐园</div>
-            <div className="result-card-sub">九维认知能力画像</div>
+    <>
+      <div className="app-container no-print">
+        {/* 可截图分享的卡片区域 */}
+        <div className="result-card">
+          <div className="result-card-header">
+            <span className="result-card-logo">🧠</span>
+            <div>
+              <div className="result-card-title">认知乐园</div>
+              <div className="result-card-sub">九维认知能力画像</div>
+            </div>
+            <div className="result-card-owner">
+              <div>{profile.avatar} {profile.name}</div>
+              <div className="result-card-sub">{today.getFullYear()}年{today.getMonth() + 1}月{today.getDate()}日</div>
+            </div>
           </div>
-        </div>
 
-        <div className="radar-wrapper">
-          <RadarChart scores={normalizedScores} />
-        </div>
+          <div className="radar-wrapper" ref={radarRef}>
+            <RadarChart series={series} />
+          </div>
+
+          <div className="result-rating">
+            {rating.emoji} {rating.label}
+          </div>
+          <div className="result-avg">综合评分 {average} 分</div>
+
+          <div className="result-message">{rating.message}</div>
 
-        <div className="result-rating">
-          {rating.emoji} {rating.label}
+          <div className="result-basis">
+            {GAMES.map((game) => {
+              const entry = cognitive[game.id]
+              return entry && (
+                <span key={game.id} className="result-basis-item">
+                  {game.domain} · {DIFFICULTY_LABELS[entry.difficulty]}
+                </span>
+              )
+            })}
+          </div>
+          <div className="result-basis-note">
+            按各项最近一次训练的难度折算：简单满分计 60，普通计 80，困难计 100
+          </div>
         </div>
-        <div className="result-avg">综合评分 {average} 分</div>
 
-        <div className="result-message">{rating.message}</div>
+        <div className="result-actions">
+          <button className="btn btn-outline" onClick={handleSaveImage} disabled={saving}>
+            🖼️ {saving ? '生成中…' : '保存图片'}
+          </button>
+          <button className="btn btn-outline" onClick={() => window.print()}>
+            🖨️ 打印报告
+          </button>
+        </div>
+        {saveError && <div className="history-transfer-msg error">{saveError}</div>}
 
+        <button className="btn btn-primary btn-block" onClick={onBack}>
+          返回主菜单
+        </button>
       </div>
 
-      <button className="btn btn-primary btn-block" onClick={onBack}>
-        返回主菜单
-      </button>
-    </div>
+      <PrintReport
+        profile={profile}
+        cognitive={cognitive}
+        latestScores={latestScores}
+        series={series[0]}
+        average={average}
+        ratingText={`${rating.emoji} ${rating.label}`}
+        records={records}
+      />
+    </>
   )
 }
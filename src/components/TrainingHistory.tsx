@@ -1,14 +1,18 @@
-import { useState } from 'react'
-import { GAMES, GameId } from '../types'
-import { loadRecords, clearRecords, TrainingRecord } from '../utils/storage'
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { DIFFICULTIES, GameId, Profile, DIFFICULTY_LABELS } from '../types'
+import { GAMES, describeOptions, getGame, getMaxScore, isScoredPlay, scoreSlot } from '../games'
+import { loadRecords, clearRecords, completedRecords, TrainingRecord } from '../utils/storage'
+import { abilityScore } from '../utils/scoring'
+import TrendChart from './TrendChart'
+import {
+  exportBundle, importBundle, recordsToCsv, trialsToCsv, downloadFile, exportFileName, BundleError,
+} from '../utils/transfer'
 
 interface Props {
+  profile: Profile
   onBack: () => void
 }
 
-const DIFFICULTY_LABELS = { easy: '简单', normal: '普通', hard: '困难' } as const
-const GAME_MAP = Object.fromEntries(GAMES.map(g => [g.id, g])) as Record<GameId, typeof GAMES[number]>
-
 function formatTime(ts: number): string {
   const d = new Date(ts)
   const month = d.getMonth() + 1
@@ -23,10 +27,22 @@ function formatDate(ts: number): string {
   return `${d.getFullYear()}年${d.getMonth() + 1}月${d.getDate()}日`
 }
 
-export default function TrainingHistory({ onBack }: Props) {
-  const [records] = useState(() => loadRecords().slice().reverse())
+export default function TrainingHistory({ profile, onBack }: Props) {
+  const [records, setRecords] = useState<TrainingRecord[]>([])
   const [filter, setFilter] = useState<GameId | 'all'>('all')
+  const [view, setView] = useState<'list' | 'trend'>('list')
   const [showConfirm, setShowConfirm] = useState(false)
+  const [transferMessage, setTransferMessage] = useState<{ type: 'ok' | 'error'; text: string } | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const reload = useCallback(
+    () => loadRecords(profile.id).then(all => setRecords(all.reverse())),
+    [profile.id],
+  )
+
+  useEffect(() => {
+    reload()
+  }, [reload])
 
   const filtered = filter === 'all' ? records : records.filter(r => r.gameId === filter)
 
@@ -38,17 +54,70 @@ export default function TrainingHistory({ onBack }: Props) {
     grouped[key].push(r)
   }
 
-  // 统计
-  const totalGames = records.length
+  // 统计只计完整完成的局
+  const completed = completedRecords(records)
+  const totalGames = completed.length
+  const abandonedCount = records.length - completed.length
   const todayStart = new Date()
   todayStart.setHours(0, 0, 0, 0)
-  const todayCount = records.filter(r => r.timestamp >= todayStart.getTime()).length
-  const avgScore = totalGames > 0
-    ? Math.round(records.reduce((s, r) => s + r.score, 0) / totalGames)
+  const todayCount = completed.filter(r => r.timestamp >= todayStart.getTime()).length
+  // 各游戏原始分量纲不同，按难度折算为 0-100 能力分后再平均；不计分的玩法不参与
+  const scored = completed.filter(r => isScoredPlay(r.gameId, r.options))
+  const avgAbility = scored.length > 0
+    ? Math.round(scored.reduce((s, r) => s + abilityScore(r.gameId, r.difficulty, r.score, r.options), 0) / scored.length)
     : 0
 
-  const handleClear = () => {
-    clearRecords()
+  // 趋势图按成绩槽位 (游戏, 难度, 玩法) 分组，不同玩法的分数量纲可能不同；组内按时间从早到晚
+  const trendGroups = GAMES
+    .filter(g => filter === 'all' || g.id === filter)
+    .flatMap(game => DIFFICULTIES.flatMap(difficulty => {
+      const bySlot = new Map<string, TrainingRecord[]>()
+      for (const r of completedRecords(filtered).filter(r => r.gameId === game.id && r.difficulty === difficulty).reverse()) {
+        const slot = scoreSlot(game.id, difficulty, r.options)
+        bySlot.set(slot, [...(bySlot.get(slot) ?? []), r])
+      }
+      // 名称只用于标题，取组内最近一次的选项
+      return [...bySlot].map(([slot, records]) => ({
+        game,
+        slot,
+        difficulty,
+        optionsLabel: describeOptions(game.id, records[records.length - 1].options),
+        records,
+      }))
+    }))
+
+  const handleExportJson = async () => {
+    const bundle = await exportBundle(profile)
+    downloadFile(exportFileName(profile, 'json'), JSON.stringify(bundle, null, 2), 'application/json')
+  }
+
+  const handleExportCsv = async (kind: 'records' | 'trials') => {
+    const bundle = await exportBundle(profile)
+    if (kind === 'records') {
+      downloadFile(exportFileName(profile, 'csv'), recordsToCsv(bundle), 'text/csv;charset=utf-8')
+    } else {
+      downloadFile(exportFileName(profile, 'csv', '-trials'), trialsToCsv(bundle), 'text/csv;charset=utf-8')
+    }
+  }
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const { added, skipped } = await importBundle(profile.id, await file.text())
+      setTransferMessage({
+        type: 'ok',
+        text: skipped > 0 ? `已导入 ${added} 条记录，跳过 ${skipped} 条重复记录` : `已导入 ${added} 条记录`,
+      })
+      await reload()
+    } catch (err) {
+      setTransferMessage({
+        type: 'error',
+        text: err instanceof BundleError ? `导入失败：${err.message}` : '导入失败，请确认文件完整',
+      })
+    }
+  }
+
+  const handleClear = async () => {
+    await clearRecords(profile.id)
     setShowConfirm(false)
     onBack()
   }
@@ -60,7 +129,7 @@ export default function TrainingHistory({ onBack }: Props) {
           <button className="game-back-btn" onClick={onBack}>←</button>
           <span className="game-title">训练记录</span>
         </div>
-        {totalGames > 0 && (
+        {records.length > 0 && (
           <button className="history-clear-btn" onClick={() => setShowConfirm(true)}>
             清除
           </button>
@@ -78,10 +147,43 @@ export default function TrainingHistory({ onBack }: Props) {
           <div className="history-stat-label">今日</div>
         </div>
         <div className="history-stat-item">
-          <div className="history-stat-value">{avgScore}</div>
-          <div className="history-stat-label">平均分</div>
+          <div className="history-stat-value">{avgAbility}</div>
+          <div className="history-stat-label">平均能力分</div>
         </div>
       </div>
+      {abandonedCount > 0 && (
+        <div className="history-abandoned-note">另有 {abandonedCount} 局中途放弃，不计入统计</div>
+      )}
+
+      {/* 导出 / 导入 */}
+      <div className="history-transfer">
+        <button className="history-filter-btn" onClick={handleExportJson} disabled={records.length === 0}>
+          导出 JSON
+        </button>
+        <button className="history-filter-btn" onClick={() => handleExportCsv('records')} disabled={records.length === 0}>
+          导出 CSV
+        </button>
+        <button className="history-filter-btn" onClick={() => handleExportCsv('trials')} disabled={records.length === 0}>
+          导出试次 CSV
+        </button>
+        <button className="history-filter-btn" onClick={() => fileInputRef.current?.click()}>
+          导入数据
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) handleImportFile(file)
+          }}
+        />
+      </div>
+      {transferMessage && (
+        <div className={`history-transfer-msg ${transferMessage.type}`}>{transferMessage.text}</div>
+      )}
 
       {/* 筛选 */}
       <div className="history-filters">
@@ -103,31 +205,72 @@ export default function TrainingHistory({ onBack }: Props) {
         ))}
       </div>
 
+      {/* 视图切换 */}
+      {filtered.length > 0 && (
+        <div className="history-view-toggle">
+          <button className={view === 'list' ? 'active' : ''} onClick={() => setView('list')}>📋 列表</button>
+          <button className={view === 'trend' ? 'active' : ''} onClick={() => setView('trend')}>📈 趋势</button>
+        </div>
+      )}
+
       {/* 记录列表 */}
       {filtered.length === 0 ? (
         <div className="history-empty">
           <p>暂无训练记录</p>
           <p style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>完成游戏后，记录将自动保存在这里</p>
         </div>
+      ) : view === 'trend' ? (
+        <div className="history-trends">
+          {trendGroups.map(({ game, slot, difficulty, optionsLabel, records: groupRecords }) => {
+            const best = Math.max(...groupRecords.map(r => r.score))
+            return (
+              <div key={`${game.id}-${slot}`} className="history-trend-card">
+                <div className="history-trend-header">
+                  <span>{game.icon} {game.name} · {DIFFICULTY_LABELS[difficulty]}{optionsLabel && ` · ${optionsLabel}`}</span>
+                  <span className="history-trend-meta">共 {groupRecords.length} 次 · 最高 {best} 分</span>
+                </div>
+                <TrendChart records={groupRecords} color={game.color} maxScore={getMaxScore(game.id, difficulty, groupRecords[0].options)} />
+              </div>
+            )
+          })}
+        </div>
       ) : (
         <div className="history-list">
           {Object.entries(grouped).map(([date, dayRecords]) => (
             <div key={date} className="history-day-group">
               <div className="history-day-header">{date}</div>
               {dayRecords.map((r, i) => {
-                const game = GAME_MAP[r.gameId]
+                const game = getGame(r.gameId)
+                const abandoned = r.status === 'abandoned'
+                const optionsLabel = describeOptions(r.gameId, r.options)
+                const metrics = Object.entries(r.metrics)
                 return (
-                  <div key={i} className="history-record-item">
+                  <div key={i} className={`history-record-item ${abandoned ? 'abandoned' : ''}`}>
                     <div className="history-record-icon" style={{ background: game.color }}>
                       {game.icon}
                     </div>
                     <div className="history-record-info">
                       <div className="history-record-name">{game.name}</div>
                       <div className="history-record-meta">
-                        {DIFFICULTY_LABELS[r.difficulty]} · {formatTime(r.timestamp)}
+                        {DIFFICULTY_LABELS[r.difficulty]}{optionsLabel && ` · ${optionsLabel}`} · {formatTime(r.timestamp)}
+                        {r.seed !== null && ` · 题号 ${r.seed}`}
+                        {r.interruptions.length > 0 && ` · 中断 ${r.interruptions.length} 次`}
                       </div>
+                      {metrics.length > 0 && (
+                        <div className="history-record-meta">
+                          {metrics.map(([key, value]) => `${game.metrics?.[key] ?? key} ${value}`).join(' · ')}
+                        </div>
+                      )}
+                      {abandoned && r.progress && (
+                        <div className="history-record-meta">
+                          完成 {r.progress.total === null ? r.progress.round : `${r.progress.round}/${r.progress.total}`} 轮
+                          · {r.progress.trials} 个试次 · 退出时 {r.score} 分
+                        </div>
+                      )}
                     </div>
-                    <div className="history-record-score">{r.score}分</div>
+                    {abandoned
+                      ? <div className="history-record-abandoned">中途放弃</div>
+                      : <div className="history-record-score">{r.score}分</div>}
                   </div>
                 )
               })}
@@ -142,7 +285,7 @@ export default function TrainingHistory({ onBack }: Props) {
           <div className="difficulty-modal">
             <h3>确认清除</h3>
             <p style={{ color: 'var(--text-secondary)', margin: '16px 0' }}>
-              将清除所有训练记录和最高分，此操作不可撤销。
+              将清除“{profile.name}”的所有训练记录和最高分，此操作不可撤销。
             </p>
             <div className="game-over-buttons">
               <button className="btn btn-outline" onClick={() => setShowConfirm(false)}>取消</button>
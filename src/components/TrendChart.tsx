@@ -0,0 +1,113 @@
+import { TrainingRecord } from '../utils/storage'
+import { buildTrend, weeklySummary, ROLLING_WINDOW } from '../utils/trends'
+
+interface Props {
+  /** 同一游戏、同一难度的记录，按时间从早到晚排列 */
+  records: TrainingRecord[]
+  color: string
+  maxScore: number
+}
+
+const WIDTH = 340
+const HEIGHT = 160
+const PAD_LEFT = 36
+const PAD_RIGHT = 10
+const PAD_TOP = 12
+const PAD_BOTTOM = 22
+const WEEK_HEIGHT = 70
+const FONT_SIZE = 10
+
+function shortDate(ts: number): string {
+  const d = new Date(ts)
+  return `${d.getMonth() + 1}/${d.getDate()}`
+}
+
+export default function TrendChart({ records, color, maxScore }: Props) {
+  const trend = buildTrend(records)
+  const weeks = weeklySummary(records)
+
+  // 纵轴上限取满分和实际最高分中的较大者
+  const yMax = Math.max(maxScore, ...trend.map(p => p.score)) || 1
+  const plotW = WIDTH - PAD_LEFT - PAD_RIGHT
+  const plotH = HEIGHT - PAD_TOP - PAD_BOTTOM
+  const x = (i: number) => PAD_LEFT + (trend.length === 1 ? plotW / 2 : (plotW * i) / (trend.length - 1))
+  const y = (score: number) => PAD_TOP + plotH * (1 - score / yMax)
+
+  const scorePath = trend.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.score)}`).join(' ')
+  const rollingPath = trend.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(p.rolling)}`).join(' ')
+
+  const weekMax = Math.max(...weeks.map(w => w.mean), 1)
+  const barSlot = plotW / Math.max(weeks.length, 1)
+  const barW = Math.min(28, barSlot * 0.6)
+  const weekPlotH = WEEK_HEIGHT - PAD_TOP - PAD_BOTTOM
+
+  return (
+    <div className="trend-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="trend-svg" role="img" aria-label="成绩趋势">
+        {[0, 0.5, 1].map(level => (
+          <g key={level}>
+            <line
+              x1={PAD_LEFT} x2={WIDTH - PAD_RIGHT}
+              y1={y(yMax * level)} y2={y(yMax * level)}
+              stroke="#E5E8EC" strokeWidth={1}
+            />
+            <text x={PAD_LEFT - 4} y={y(yMax * level)} fontSize={FONT_SIZE} fill="#7F8C8D" textAnchor="end" dominantBaseline="middle">
+              {Math.round(yMax * level)}
+            </text>
+          </g>
+        ))}
+
+        <path d={scorePath} fill="none" stroke={color} strokeOpacity={0.35} strokeWidth={1.5} />
+        <path d={rollingPath} fill="none" stroke={color} strokeWidth={2.5} strokeLinejoin="round" />
+
+        {trend.map((p, i) => p.isBest ? (
+          <text key={i} x={x(i)} y={y(p.score)} fontSize={12} fill={color} textAnchor="middle" dominantBaseline="central">
+            ★
+          </text>
+        ) : (
+          <circle key={i} cx={x(i)} cy={y(p.score)} r={2.5} fill={color} fillOpacity={0.6} />
+        ))}
+
+        <text x={PAD_LEFT} y={HEIGHT - 6} fontSize={FONT_SIZE} fill="#7F8C8D">
+          {shortDate(trend[0].timestamp)}
+        </text>
+        {trend.length > 1 && (
+          <text x={WIDTH - PAD_RIGHT} y={HEIGHT - 6} fontSize={FONT_SIZE} fill="#7F8C8D" textAnchor="end">
+            {shortDate(trend[trend.length - 1].timestamp)}
+          </text>
+        )}
+      </svg>
+
+      <div className="trend-legend">
+        <span><i className="trend-legend-dot" style={{ background: color, opacity: 0.6 }} />每次成绩</span>
+        <span><i className="trend-legend-line" style={{ background: color }} />近 {ROLLING_WINDOW} 次平均</span>
+        <span style={{ color }}>★ 刷新最高分</span>
+      </div>
+
+      {/* 按周汇总：柱高为周平均分 */}
+      <div className="trend-week-title">每周平均</div>
+      <svg viewBox={`0 0 ${WIDTH} ${WEEK_HEIGHT}`} className="trend-svg" role="img" aria-label="每周平均成绩">
+        {weeks.map((w, i) => {
+          const h = (weekPlotH * w.mean) / weekMax
+          const cx = PAD_LEFT + barSlot * (i + 0.5)
+          return (
+            <g key={w.weekStart}>
+              <rect
+                x={cx - barW / 2} y={PAD_TOP + weekPlotH - h}
+                width={barW} height={h} rx={3}
+                fill={color} fillOpacity={0.75}
+              >
+                <title>{`${shortDate(w.weekStart)} 起一周：${w.count} 次，平均 ${w.mean} 分，最高 ${w.best} 分`}</title>
+              </rect>
+              {weeks.length <= 8 && (
+                <text x={cx} y={WEEK_HEIGHT - 6} fontSize={FONT_SIZE} fill="#7F8C8D" textAnchor="middle">
+                  {shortDate(w.weekStart)}
+                </text>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
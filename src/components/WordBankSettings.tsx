@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react'
+import { GameSettingsProps } from '../games'
+import { loadCustomWordBank, saveCustomWordBank } from '../utils/storage'
+import { countWords, CUSTOM_BANK_ID, MAX_CATEGORIES, MIN_CATEGORIES, MIN_WORDS_PER_CATEGORY, validateWordBank, WordBank, WordBankError } from '../utils/wordBank'
+
+const SAMPLE = `{
+  "name": "张阿姨的词库",
+  "categories": [
+    { "name": "家人", "words": ["女儿", "外孙", "老伴"] },
+    { "name": "老家", "words": ["村口", "祠堂", { "text": "晒谷场", "familiarity": 2 }] }
+  ]
+}`
+
+/** 词语分类选择"自定义"词库时，在难度选择中导入、查看和删除词库文件 */
+export default function WordBankSettings({ options, onReadyChange, onExtraOptionsChange }: GameSettingsProps) {
+  const custom = options.bank === CUSTOM_BANK_ID
+  // undefined 表示读取中
+  const [bank, setBank] = useState<WordBank | null | undefined>(undefined)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    loadCustomWordBank()
+      .then(setBank)
+      .catch(() => {
+        setBank(null)
+        setError('读取自定义词库失败，请重新导入')
+      })
+  }, [])
+
+  useEffect(() => {
+    onReadyChange(!custom || !!bank)
+  }, [custom, bank, onReadyChange])
+
+  // 词库只在本机保存一份，记录里记下当时用的是哪个词库
+  useEffect(() => {
+    onExtraOptionsChange(custom && bank ? { bankName: bank.name } : {})
+  }, [custom, bank, onExtraOptionsChange])
+
+  if (!custom) return null
+
+  const handleFile = async (file: File) => {
+    setError(null)
+    try {
+      let raw: unknown
+      try {
+        raw = JSON.parse(await file.text())
+      } catch {
+        throw new WordBankError('文件不是有效的 JSON')
+      }
+      const imported = validateWordBank(raw)
+      await saveCustomWordBank(imported)
+      setBank(imported)
+    } catch (e) {
+      setError(e instanceof WordBankError ? e.message : '导入失败，请重试')
+    }
+  }
+
+  const handleRemove = async () => {
+    setError(null)
+    try {
+      await saveCustomWordBank(null)
+      setBank(null)
+    } catch {
+      setError('删除失败，请重试')
+    }
+  }
+
+  return (
+    <div className="wordbank-settings">
+      {bank === undefined ? null : bank ? (
+        <div className="wordbank-current">
+          当前词库：<strong>{bank.name}</strong>（{bank.categories.length} 类，共 {countWords(bank)} 个词）
+        </div>
+      ) : (
+        <div className="wordbank-current">尚未导入自定义词库，导入后才能开始</div>
+      )}
+      <div className="wordbank-actions">
+        <button className="history-filter-btn" onClick={() => fileInputRef.current?.click()}>
+          {bank ? '更换词库文件' : '导入词库文件'}
+        </button>
+        {bank && (
+          <button className="history-filter-btn" onClick={handleRemove}>
+            删除
+          </button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: 'none' }}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) handleFile(file)
+          }}
+        />
+      </div>
+      {error && <div className="wordbank-error">{error}</div>}
+      <div className="wordbank-note">自定义词库的成绩单独记录，不计入能力画像和难度推荐。</div>
+      <details className="wordbank-format">
+        <summary>文件格式</summary>
+        <p>
+          {MIN_CATEGORIES}-{MAX_CATEGORIES} 个类别，每类至少 {MIN_WORDS_PER_CATEGORY} 个词，同一个词不能出现在两个类别中。
+          familiarity 为熟悉度（1 日常常用、2 较常见、3 较少见），不写时按日常常用计，简单难度只出日常常用词。
+        </p>
+        <pre>{SAMPLE}</pre>
+      </details>
+    </div>
+  )
+}
@@ -1,5 +1,3 @@
-import type { GameId } from '../types'
-
 export interface GameIntro {
   title: string
   content: string
@@ -11,398 +9,5 @@ export interface KnowledgeCard {
   content: string
 }
 
-export const gameIntros: Record<GameId, GameIntro> = {
-  memory: {
-    title: '记忆力',
-    content:
-      '记忆力是大脑储存和提取信息的能力，是日常生活的基石。研究表明，通过有规律的记忆训练，可以增强海马体功能，延缓与年龄相关的记忆衰退。配对记忆任务是临床常用的记忆评估与训练方法。',
-  },
-  schulte: {
-    title: '注意力',
-    content:
-      '注意力是大脑将资源集中在重要信息上的能力。注意力减退是许多认知障碍的早期表现之一。舒尔特方格训练可有效提升视觉搜索速度和注意广度，是世界范围内应用广泛的注意力训练工具。',
-  },
-  stroop: {
-    title: '执行功能',
-    content:
-      '执行功能是大脑的"指挥官"，负责计划、决策和行为控制。Stroop 效应揭示了自动化加工与主动控制之间的冲突——通过训练抑制控制能力，可以增强前额叶的执行功能。',
-  },
-  wordSort: {
-    title: '语言能力',
-    content:
-      '语言能力不仅是沟通工具，更是思维的载体。语义分类能力反映了大脑组织和提取知识的效率。研究发现，保持阅读习惯和词汇学习可以有效维护语言认知功能。',
-  },
-  pathMemory: {
-    title: '视空间能力',
-    content:
-      '视空间能力帮助我们感知空间关系、记忆位置和导航方向。空间记忆功能的下降可能是认知障碍的早期信号。路径记忆训练基于经典的 Corsi 积木测验，能有效锻炼空间工作记忆。',
-  },
-  reaction: {
-    title: '处理速度',
-    content:
-      '处理速度是大脑接收、理解和回应信息的效率，也是最早随年龄下降的认知能力之一。简单反应时间测试能够衡量基本的神经加工效率，反映信号从感知到运动输出的完整通路。研究表明，规律的有氧运动有助于维持和改善处理速度。',
-  },
-  digitSpan: {
-    title: '工作记忆',
-    content:
-      '工作记忆是大脑的"心理工作台"，用于临时保持和操作信息。数字倒背是经典的神经心理学测验，要求在头脑中暂存并反转信息序列，深度考验工作记忆容量。研究发现，工作记忆训练可以迁移到日常生活的多种活动中，如阅读理解、心算和问题解决。',
-  },
-  arithmetic: {
-    title: '计算能力',
-    content:
-      '心算能力涉及多个认知系统的协同运作，包括工作记忆、注意力和数字加工。日常计算练习能激活额叶和顶叶的广泛脑区，是一种高效的综合认知训练方式。维持数学技能有助于保持整体认知功能，降低认知衰退风险。',
-  },
-  patternReason: {
-    title: '推理判断',
-    content:
-      '推理判断能力是流体智力的核心成分，涵盖模式识别、逻辑推理和抽象思维。经典的瑞文推理测验（Raven\'s Progressive Matrices）便是通过图形模式来评估推理能力。研究表明，推理能力的认知训练可以迁移到其他认知领域，产生广泛的认知增益。',
-  },
-}
-
-export const knowledgeCards: Record<GameId, KnowledgeCard[]> = {
-  memory: [
-    {
-      id: 1,
-      title: '地中海饮食护记忆',
-      content:
-        '研究表明，富含深海鱼、坚果、浆果和橄榄油的地中海饮食可降低阿尔茨海默病风险达40%。每周吃2-3次深海鱼类，为大脑补充omega-3脂肪酸。',
-    },
-    {
-      id: 2,
-      title: '睡眠是记忆的"保存键"',
-      content:
-        '深度睡眠期间，大脑会将白天的短时记忆转化为长期记忆。建议每晚保持7-8小时高质量睡眠，睡前避免使用电子设备。',
-    },
-    {
-      id: 3,
-      title: '"间隔重复"记忆法',
-      content:
-        '与其一次性反复记忆，不如分多次间隔复习。研究证实，间隔1天、3天、7天的复习节奏能将记忆保留率提高200%。',
-    },
-    {
-      id: 4,
-      title: '社交互动强化记忆',
-      content:
-        '与朋友交流、参加社交活动需要调用大量记忆资源。哈佛大学研究发现，社交活跃的老年人记忆衰退速度减慢70%。',
-    },
-    {
-      id: 5,
-      title: '运动是最好的记忆药',
-      content:
-        '有氧运动能促进大脑分泌脑源性神经营养因子（BDNF），增强海马体神经元的再生。每周150分钟中等强度运动即可显著改善记忆。',
-    },
-    {
-      id: 6,
-      title: '多感官编码助记忆',
-      content:
-        '同时调动视觉、听觉、触觉来记忆信息，比单一通道更有效。学习新知识时，边读边写边说，可以建立更丰富的记忆痕迹。',
-    },
-  ],
-  schulte: [
-    {
-      id: 1,
-      title: '正念冥想提升注意力',
-      content:
-        '每天10-15分钟的正念冥想练习，8周后即可显著提升持续注意力和选择性注意力。从关注呼吸开始，逐步延长专注时间。',
-    },
-    {
-      id: 2,
-      title: '注意力也需要"休息"',
-      content:
-        '持续高强度注意后，大脑需要恢复。每工作45-60分钟，休息10分钟。番茄工作法（25分钟专注+5分钟休息）是很好的注意力管理策略。',
-    },
-    {
-      id: 3,
-      title: '多任务降低注意效率',
-      content:
-        '同时做多件事会分散注意资源，降低效率达40%。尽量一次专注做一件事，减少手机等干扰源的影响。',
-    },
-    {
-      id: 4,
-      title: '良好听力保护注意力',
-      content:
-        '听力下降会迫使大脑分配更多资源用于听觉处理，从而减少注意力资源。定期检查听力，必要时配戴助听器。',
-    },
-    {
-      id: 5,
-      title: '绿色环境恢复注意力',
-      content:
-        '研究显示，在自然环境中散步20分钟，能显著恢复因疲劳而下降的注意力。即使看窗外的绿色植物也有帮助。',
-    },
-    {
-      id: 6,
-      title: '血糖稳定，注意力集中',
-      content:
-        '大脑消耗全身约20%的葡萄糖。低血糖或血糖波动会导致注意力明显下降。规律进食、选择低升糖指数食物有助于维持稳定。',
-    },
-  ],
-  stroop: [
-    {
-      id: 1,
-      title: '执行功能是"大脑的CEO"',
-      content:
-        '执行功能负责计划、组织、灵活切换和抑制冲动，由前额叶皮层主导。从20多岁开始缓慢衰退，但可通过训练保持和增强。',
-    },
-    {
-      id: 2,
-      title: '双语或学习新语言',
-      content:
-        '学习和使用两种语言需要不断在语言间切换和抑制，这是对执行功能的绝佳训练。研究发现，双语者的认知障碍发病平均延迟4-5年。',
-    },
-    {
-      id: 3,
-      title: '规律有氧运动增强执行功能',
-      content:
-        '有氧运动能增加前额叶的血流量和神经连接，显著改善执行功能。每次运动30分钟，每周至少3次。',
-    },
-    {
-      id: 4,
-      title: '减少"自动驾驶"模式',
-      content:
-        '日常中有意改变习惯路线、用非惯用手刷牙等，可以打破自动化行为，激活前额叶执行控制系统。',
-    },
-    {
-      id: 5,
-      title: '戒烟限酒保护前额叶',
-      content:
-        '长期吸烟和过量饮酒会损伤前额叶功能。戒烟后认知功能可逐步恢复；建议男性每日酒精摄入不超过25g。',
-    },
-    {
-      id: 6,
-      title: '音乐训练增强抑制控制',
-      content:
-        '学习乐器需要协调视觉、听觉和运动，同时抑制无关信息。音乐训练已被证实能提升各年龄段人群的执行功能。',
-    },
-  ],
-  wordSort: [
-    {
-      id: 1,
-      title: '每天阅读15分钟',
-      content:
-        '长期阅读习惯能增强语义网络的丰富度和提取效率。即使每天只读15分钟，一年也能读完约20本书，持续滋养语言认知。',
-    },
-    {
-      id: 2,
-      title: '写日记锻炼语言表达',
-      content:
-        '每天写几句日记，记录当天的事件和感受，是同时训练语言组织、记忆提取和自我觉察的好方法。',
-    },
-    {
-      id: 3,
-      title: '命名困难不等于"老糊涂"',
-      content:
-        '偶尔想不起某个词是正常的语言提取现象，随年龄增长逐渐增多，不一定是认知障碍。但若频繁出现，建议就医评估。',
-    },
-    {
-      id: 4,
-      title: '朗读和复述',
-      content:
-        '大声朗读和向他人复述故事情节，涉及语言理解、信息整合和语言产出的完整链条，是全面锻炼语言认知的有效方式。',
-    },
-    {
-      id: 5,
-      title: '学习新词汇',
-      content:
-        '词汇量是少数随年龄持续增长的认知能力之一。保持好奇心，学习新词汇和新知识，能扩展语义网络，增强认知储备。',
-    },
-    {
-      id: 6,
-      title: '社交对话比独处更有益',
-      content:
-        '与不同的人交谈，需要理解对方意图、组织回应、运用社交语言——这是一种综合性的语言认知训练。',
-    },
-  ],
-  pathMemory: [
-    {
-      id: 1,
-      title: '散步时有意识地观察环境',
-      content:
-        '在散步时注意观察周围建筑、标志和路线，是锻炼视空间能力的日常方法。尝试回忆走过的路线或描述环境布局。',
-    },
-    {
-      id: 2,
-      title: '拼图和积木游戏',
-      content:
-        '拼图、搭积木、折纸等活动需要分析空间关系和心理旋转，能有效锻炼视空间能力。适合各年龄段作为认知训练工具。',
-    },
-    {
-      id: 3,
-      title: '空间导航能力的变化',
-      content:
-        '迷路或找不到停车位可能是视空间功能下降的早期信号。如果发现在熟悉环境中频繁迷失方向，建议进行专业认知评估。',
-    },
-    {
-      id: 4,
-      title: '绘画和手工艺',
-      content:
-        '绘画、书法、编织等需要精细空间协调的活动，对维持视空间功能很有帮助。不需要画得好，享受过程本身就是一种训练。',
-    },
-    {
-      id: 5,
-      title: '太极拳训练空间感',
-      content:
-        '太极拳要求身体在空间中的精确控制和对周围环境的持续感知，研究证实太极拳能改善老年人的空间认知功能和平衡能力。',
-    },
-    {
-      id: 6,
-      title: '保持良好视力',
-      content:
-        '视力问题会直接影响视空间认知表现。定期进行眼科检查，及时矫正视力，是保护视空间功能的基础。',
-    },
-  ],
-  reaction: [
-    {
-      id: 1,
-      title: '有氧运动提升处理速度',
-      content:
-        '规律的有氧运动（如快走、游泳、骑车）能增加脑血流量，促进神经传导效率。研究表明，每周3-5次、每次30分钟的中等强度有氧运动，可以显著提升认知处理速度。',
-    },
-    {
-      id: 2,
-      title: '睡眠质量影响反应时间',
-      content:
-        '睡眠不足会显著延长反应时间，甚至媲美酒精的影响。24小时不睡觉的认知损害等同于血液酒精浓度0.1%。保证每晚7-8小时优质睡眠，是维持快速反应能力的基础。',
-    },
-    {
-      id: 3,
-      title: '处理速度的正常老化',
-      content:
-        '处理速度从20多岁开始逐步下降，是正常衰老的一部分。但下降速度因人而异，保持积极的生活方式、持续的认知参与和良好的心血管健康，都能有效减缓这一过程。',
-    },
-    {
-      id: 4,
-      title: '咖啡因对反应时间的影响',
-      content:
-        '适量咖啡因（约200mg，相当于1-2杯咖啡）能短暂提升警觉性和反应速度。但过量摄入反而会引起焦虑、手抖，降低精细动作的反应精度。建议下午2点后避免摄入咖啡因以免影响睡眠。',
-    },
-    {
-      id: 5,
-      title: '正念练习改善反应质量',
-      content:
-        '正念冥想训练不仅能缩短反应时间，更能减少冲动性错误。研究发现，8周的正念训练可以提升注意警觉性，让反应既快又准，这在日常活动如驾驶中尤为重要。',
-    },
-    {
-      id: 6,
-      title: '水分充足保障认知速度',
-      content:
-        '轻度脱水（体重减少1-2%的水分）就会导致反应时间变慢和注意力下降。大脑约75%由水组成，每天应饮用1500-2000毫升水。老年人渴觉减退，需有意识地定时饮水。',
-    },
-  ],
-  digitSpan: [
-    {
-      id: 1,
-      title: '组块策略提升记忆容量',
-      content:
-        '将零散信息组合成有意义的"组块"是扩展工作记忆的经典策略。例如，记忆手机号时将11位数字分成3-4个小组。这种策略利用长期记忆辅助短期存储，有效突破容量限制。',
-    },
-    {
-      id: 2,
-      title: '神奇的7±2法则',
-      content:
-        '心理学家米勒发现，人类工作记忆的容量约为7±2个信息单元。这意味着大多数人能同时记住5-9个独立项目。了解这个规律，可以帮助我们更科学地安排学习和工作中的信息量。',
-    },
-    {
-      id: 3,
-      title: '冥想增强工作记忆',
-      content:
-        '多项研究证实，规律的冥想练习能改善工作记忆容量。每天15-20分钟的专注冥想，持续8周后，工作记忆测试成绩可提升约15%。冥想通过增强前额叶与顶叶的功能连接来发挥作用。',
-    },
-    {
-      id: 4,
-      title: '双重N-back训练',
-      content:
-        '双重N-back是目前研究最多的工作记忆训练范式之一，要求同时追踪视觉位置和听觉刺激。虽然学术界对其迁移效果仍有争议，但多数研究支持它能直接改善工作记忆表现。',
-    },
-    {
-      id: 5,
-      title: '工作记忆与学习工作表现',
-      content:
-        '工作记忆容量与阅读理解、数学推理、问题解决和学习新技能密切相关。工作记忆能力强的人更善于在复杂任务中筛选关键信息、排除干扰，从而表现更出色。',
-    },
-    {
-      id: 6,
-      title: '工作记忆的增龄性变化',
-      content:
-        '工作记忆从60岁左右开始明显下降，主要表现为信息操纵和更新能力减弱。但好消息是，通过持续的认知训练、有氧运动和保持社交活跃，可以有效延缓这一衰退过程。',
-    },
-  ],
-  arithmetic: [
-    {
-      id: 1,
-      title: '每日心算练习益处多',
-      content:
-        '日本学者川岛隆太的研究发现，每天进行简单的心算练习能广泛激活前额叶皮层，改善多项认知功能。买菜时心算总价、分摊餐费等日常场景，都是锻炼计算能力的好机会。',
-    },
-    {
-      id: 2,
-      title: '数感与大脑可塑性',
-      content:
-        '数感是人类对数量的直觉理解能力，与顶内沟脑区密切相关。神经影像学研究显示，数学训练能增加该区域的灰质密度和功能连接，体现了大脑的终身可塑性。',
-    },
-    {
-      id: 3,
-      title: '棋牌游戏促进认知健康',
-      content:
-        '象棋、围棋、扑克、麻将等涉及计算和策略的游戏，需要持续调动数字推理和规划能力。法国一项大型研究发现，经常玩棋牌游戏的老年人，认知衰退风险降低约15%。',
-    },
-    {
-      id: 4,
-      title: '关注计算障碍',
-      content:
-        '计算障碍（Dyscalculia）是一种影响数字理解和运算的学习困难，约影响3-6%的人群。对于原本计算能力正常但逐渐出现困难的中老年人，计算能力下降可能提示需要进行认知健康评估。',
-    },
-    {
-      id: 5,
-      title: '财务管理是认知锻炼',
-      content:
-        '记账、预算规划和投资决策都需要综合运用计算、推理和执行功能。保持独立的财务管理能力既是认知健康的表现，也是持续锻炼大脑的有效方式。财务管理能力下降也是认知障碍的早期预警信号之一。',
-    },
-    {
-      id: 6,
-      title: '数学活动与痴呆预防',
-      content:
-        '多项纵向研究表明，经常进行涉及数字和计算的智力活动（如数独、心算、数学题），可以增加认知储备，降低患阿尔茨海默病的风险。这种保护效应即使在晚年才开始也能获益。',
-    },
-  ],
-  patternReason: [
-    {
-      id: 1,
-      title: '益智谜题锻炼推理力',
-      content:
-        '数独、逻辑谜题、图形推理等益智游戏是锻炼推理能力的优秀工具。它们要求发现规律、测试假设、排除错误——这些正是推理思维的核心成分。每天花15-20分钟做益智题，能有效保持推理敏锐度。',
-    },
-    {
-      id: 2,
-      title: '流体智力与晶体智力',
-      content:
-        '流体智力指解决新问题、识别新模式的能力，从中年开始下降；晶体智力指运用已有知识经验的能力，可持续增长至70岁以上。推理训练主要针对流体智力，而丰富的知识积累也能弥补流体智力的下降。',
-    },
-    {
-      id: 3,
-      title: '创造性活动增强推理',
-      content:
-        '绘画、音乐创作、写作等创造性活动需要发散思维和模式生成，与推理能力共享部分认知资源。研究发现，从事创造性爱好的人在抽象推理测试中表现更好，创造力与推理力相互促进。',
-    },
-    {
-      id: 4,
-      title: '日常生活中的模式识别',
-      content:
-        '模式识别无处不在：天气变化规律、交通流量模式、消费习惯分析——有意识地在日常生活中寻找和分析规律，就是在自然地锻炼推理能力。保持对周围事物的好奇心和观察力非常重要。',
-    },
-    {
-      id: 5,
-      title: '下棋和策略游戏',
-      content:
-        '象棋、围棋等策略游戏需要预测对手行为、评估多种可能性并制定计划，深度训练逻辑推理和前瞻思维。研究表明，长期下棋的人在标准化推理测试中得分显著更高。',
-    },
-    {
-      id: 6,
-      title: '推理能力的老年保持',
-      content:
-        '虽然推理能力会随年龄自然下降，但衰退程度个体差异很大。ACTIVE研究证实，针对推理能力的认知训练效果可持续10年以上。保持终身学习、接触新事物、挑战思维舒适区，是维护推理能力的关键。',
-    },
-  ],
-}
-
 export const cognitiveReserveInfo: string =
   '认知储备（Cognitive Reserve）理论告诉我们：教育、职业复杂度和休闲活动（阅读、游戏、社交、运动）能建立大脑的"认知储备"，就像为大脑存了一笔"认知养老金"。即使脑部出现病理变化，高认知储备的人也能更好地维持日常功能。任何时候开始锻炼大脑都不算晚！'
@@ -1,8 +1,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { Difficulty, DIFFICULTY_LABELS, FixedDifficulty, FIXED_DIFFICULTIES, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { createStaircase } from '../utils/staircase'
+import { optionIndexFromKey, useKeyboard } from '../utils/keyboard'
+import { defineGame } from './registry'
 
 interface Props {
-  difficulty: 'easy' | 'normal' | 'hard'
+  difficulty: Difficulty
+  rng: Rng
+  clock: GameClock
   onComplete: (score: number) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 interface Problem {
@@ -30,13 +41,39 @@ const DIFFICULTY_SETTINGS = {
     comboBonus: 5,
     maxComboExtra: 25,
   },
+  // 自适应：不累计分数，时间到或阶梯收敛即结束，以题目等级阈值为得分
+  adaptive: {
+    timeLimit: 120,
+    pointsPerCorrect: 0,
+    comboBonus: 0,
+    maxComboExtra: 0,
+  },
 } as const
 
-function generateDistractors(answer: number): number[] {
+/** 每个固定难度内按数字范围分的档数 */
+const TIERS_PER_DIFFICULTY = 5
+
+/** 自适应等级：简单第 1 档为 1 级，困难第 5 档为 15 级 */
+const ADAPTIVE = { startLevel: 3, maxLevel: FIXED_DIFFICULTIES.length * TIERS_PER_DIFFICULTY }
+
+function levelToProblemType(level: number): { difficulty: FixedDifficulty; tier: number } {
+  return {
+    difficulty: FIXED_DIFFICULTIES[Math.floor((level - 1) / TIERS_PER_DIFFICULTY)],
+    tier: (level - 1) % TIERS_PER_DIFFICULTY,
+  }
+}
+
+/** 固定难度下随题号逐步加大数字范围 */
+function tierForIndex(difficulty: FixedDifficulty, problemIndex: number): number {
+  const tierStep = difficulty === 'easy' ? 8 : 5
+  return Math.min(Math.floor(problemIndex / tierStep), TIERS_PER_DIFFICULTY - 1)
+}
+
+function generateDistractors(answer: number, rng: Rng): number[] {
   const distractors = new Set<number>()
   // Generate plausible wrong answers near the correct one
   const offsets = [-3, -2, -1, 1, 2, 3, 5, -5, 10, -10]
-  const shuffled = offsets.sort(() => Math.random() - 0.5)
+  const shuffled = rng.shuffle(offsets)
 
   for (const offset of shuffled) {
     if (distractors.size >= 3) break
@@ -59,99 +96,102 @@ function generateDistractors(answer: number): number[] {
   return Array.from(distractors)
 }
 
-function shuffleArray<T>(arr: T[]): T[] {
-  const a = [...arr]
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[a[i], a[j]] = [a[j], a[i]]
-  }
-  return a
-}
-
-function generateProblem(difficulty: 'easy' | 'normal' | 'hard', problemIndex: number): Problem {
-  const tierStep = difficulty === 'easy' ? 8 : 5
-  const tier = Math.min(Math.floor(problemIndex / tierStep), 4)
+function generateProblem(difficulty: FixedDifficulty, tier: number, rng: Rng): Problem {
   let text: string
   let answer: number
 
   if (difficulty === 'easy') {
     const maxNum = Math.min(10 + tier * 2, 20)
-    const isAdd = Math.random() < 0.5
+    const isAdd = rng.chance(0.5)
     if (isAdd) {
-      const a = Math.floor(Math.random() * maxNum) + 1
-      const b = Math.floor(Math.random() * maxNum) + 1
+      const a = rng.int(1, maxNum)
+      const b = rng.int(1, maxNum)
       text = `${a} + ${b} = ?`
       answer = a + b
     } else {
-      const b = Math.floor(Math.random() * maxNum) + 1
-      const a = b + Math.floor(Math.random() * maxNum) + 1
+      const b = rng.int(1, maxNum)
+      const a = b + rng.int(1, maxNum)
       text = `${a} - ${b} = ?`
       answer = a - b
     }
   } else if (difficulty === 'normal') {
     const ops = ['add', 'sub', 'mul']
-    const op = ops[Math.floor(Math.random() * ops.length)]
+    const op = rng.pick(ops)
     const maxNum = Math.min(20 + tier * 8, 50)
 
     if (op === 'add') {
-      const a = Math.floor(Math.random() * maxNum) + 1
-      const b = Math.floor(Math.random() * maxNum) + 1
+      const a = rng.int(1, maxNum)
+      const b = rng.int(1, maxNum)
       text = `${a} + ${b} = ?`
       answer = a + b
     } else if (op === 'sub') {
-      const b = Math.floor(Math.random() * maxNum) + 1
-      const a = b + Math.floor(Math.random() * maxNum) + 1
+      const b = rng.int(1, maxNum)
+      const a = b + rng.int(1, maxNum)
       text = `${a} - ${b} = ?`
       answer = a - b
     } else {
       const maxMul = Math.min(6 + tier * 2, 12)
-      const a = Math.floor(Math.random() * maxMul) + 2
-      const b = Math.floor(Math.random() * maxMul) + 2
+      const a = rng.int(2, maxMul + 1)
+      const b = rng.int(2, maxMul + 1)
       text = `${a} \u00d7 ${b} = ?`
       answer = a * b
     }
   } else {
     const ops = ['add', 'sub', 'mul', 'div']
-    const op = ops[Math.floor(Math.random() * ops.length)]
+    const op = rng.pick(ops)
     const maxNum = Math.min(30 + tier * 15, 99)
 
     if (op === 'add') {
-      const a = Math.floor(Math.random() * maxNum) + 10
-      const b = Math.floor(Math.random() * maxNum) + 10
+      const a = rng.int(10, maxNum + 9)
+      const b = rng.int(10, maxNum + 9)
       text = `${a} + ${b} = ?`
       answer = a + b
     } else if (op === 'sub') {
-      const b = Math.floor(Math.random() * maxNum) + 10
-      const a = b + Math.floor(Math.random() * maxNum) + 1
+      const b = rng.int(10, maxNum + 9)
+      const a = b + rng.int(1, maxNum)
       text = `${a} - ${b} = ?`
       answer = a - b
     } else if (op === 'mul') {
       const maxMul = Math.min(8 + tier * 2, 15)
-      const a = Math.floor(Math.random() * maxMul) + 2
-      const b = Math.floor(Math.random() * maxMul) + 2
+      const a = rng.int(2, maxMul + 1)
+      const b = rng.int(2, maxMul + 1)
       text = `${a} \u00d7 ${b} = ?`
       answer = a * b
     } else {
       const maxDiv = Math.min(8 + tier * 2, 15)
-      const divisor = Math.floor(Math.random() * maxDiv) + 2
-      const quotient = Math.floor(Math.random() * maxDiv) + 2
+      const divisor = rng.int(2, maxDiv + 1)
+      const quotient = rng.int(2, maxDiv + 1)
       const dividend = divisor * quotient
       text = `${dividend} \u00f7 ${divisor} = ?`
       answer = quotient
     }
   }
 
-  const distractors = generateDistractors(answer)
-  const options = shuffleArray([answer, ...distractors])
+  const distractors = generateDistractors(answer, rng)
+  const options = rng.shuffle([answer, ...distractors])
 
   return { text, answer, options }
 }
 
-export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
+/** 自适应模式按阶梯等级出题，固定难度按题号出题 */
+function problemFor(difficulty: Difficulty, problemIndex: number, adaptiveLevel: number, rng: Rng): Problem {
+  if (difficulty === 'adaptive') {
+    const type = levelToProblemType(adaptiveLevel)
+    return generateProblem(type.difficulty, type.tier, rng)
+  }
+  return generateProblem(difficulty, tierForIndex(difficulty, problemIndex), rng)
+}
+
+export default function ArithmeticChallenge({ difficulty, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = DIFFICULTY_SETTINGS[difficulty]
 
+  const [staircase] = useState(() => difficulty === 'adaptive'
+    ? createStaircase({ start: ADAPTIVE.startLevel, min: 1, max: ADAPTIVE.maxLevel })
+    : null)
   const [timeLeft, setTimeLeft] = useState<number>(settings.timeLimit)
-  const [currentProblem, setCurrentProblem] = useState<Problem>(() => generateProblem(difficulty, 0))
+  const [currentProblem, setCurrentProblem] = useState<Problem>(
+    () => problemFor(difficulty, 0, staircase?.level() ?? 0, rng),
+  )
   const [score, setScore] = useState(0)
   const [streak, setStreak] = useState(0)
   const [totalCorrect, setTotalCorrect] = useState(0)
@@ -159,19 +199,25 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
   const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null)
   const [selectedOption, setSelectedOption] = useState<number | null>(null)
 
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const timerRef = useRef<TimerId | null>(null)
+  const feedbackTimerRef = useRef<TimerId | null>(null)
   const gameActiveRef = useRef(true)
   const scoreRef = useRef(0)
   const problemIndexRef = useRef(0)
   const isProcessingRef = useRef(false)
+  const problemShownAt = useRef(Date.now())
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress({ round: totalAttempted, total: null, score: staircase ? staircase.threshold() : score })
+  }, [totalAttempted, score, staircase, onProgress])
 
   // Countdown timer
   useEffect(() => {
-    timerRef.current = setInterval(() => {
+    timerRef.current = clock.setInterval(() => {
       setTimeLeft(prev => {
         if (prev <= 1) {
-          if (timerRef.current) clearInterval(timerRef.current)
+          if (timerRef.current) clock.clearInterval(timerRef.current)
           gameActiveRef.current = false
           return 0
         }
@@ -180,35 +226,43 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
     }, 1000)
 
     return () => {
-      if (timerRef.current) clearInterval(timerRef.current)
+      if (timerRef.current) clock.clearInterval(timerRef.current)
     }
-  }, [])
+  }, [clock])
 
   // Handle game end when timeLeft reaches 0
   useEffect(() => {
     if (timeLeft === 0 && !gameActiveRef.current) {
-      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current)
-      onComplete(scoreRef.current)
+      if (feedbackTimerRef.current) clock.clearTimeout(feedbackTimerRef.current)
+      onComplete(staircase ? staircase.threshold() : scoreRef.current)
     }
-  }, [timeLeft, onComplete])
+  }, [timeLeft, onComplete, clock, staircase])
 
   // Cleanup feedback timer on unmount
   useEffect(() => {
     return () => {
-      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current)
+      if (feedbackTimerRef.current) clock.clearTimeout(feedbackTimerRef.current)
     }
-  }, [])
+  }, [clock])
 
   const nextProblem = useCallback(() => {
+    // 自适应：阶梯收敛后提前结束
+    if (staircase?.done()) {
+      if (timerRef.current) clock.clearInterval(timerRef.current)
+      gameActiveRef.current = false
+      onComplete(staircase.threshold())
+      return
+    }
     problemIndexRef.current += 1
-    const problem = generateProblem(difficulty, problemIndexRef.current)
+    const problem = problemFor(difficulty, problemIndexRef.current, staircase?.level() ?? 0, rng)
     setCurrentProblem(problem)
+    problemShownAt.current = Date.now()
     setFeedback(null)
     setSelectedOption(null)
     isProcessingRef.current = false
-  }, [difficulty])
+  }, [difficulty, rng, clock, staircase, onComplete])
 
-  const handleOptionClick = useCallback((value: number) => {
+  const handleOptionClick = useCallback((value: number, input: InputModality) => {
     if (isProcessingRef.current) return
     if (!gameActiveRef.current) return
 
@@ -216,7 +270,9 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
     setSelectedOption(value)
 
     const isCorrect = value === currentProblem.answer
+    onTrial(respondedTrial(currentProblem.text, problemShownAt.current, String(value), isCorrect, input))
     setTotalAttempted(prev => prev + 1)
+    staircase?.record(isCorrect)
 
     if (isCorrect) {
       const newStreak = streak + 1
@@ -235,7 +291,7 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
       })
       setFeedback('correct')
 
-      feedbackTimerRef.current = setTimeout(() => {
+      feedbackTimerRef.current = clock.setTimeout(() => {
         if (gameActiveRef.current) {
           nextProblem()
         }
@@ -244,13 +300,21 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
       setStreak(0)
       setFeedback('wrong')
 
-      feedbackTimerRef.current = setTimeout(() => {
+      feedbackTimerRef.current = clock.setTimeout(() => {
         if (gameActiveRef.current) {
           nextProblem()
         }
       }, 800)
     }
-  }, [currentProblem.answer, streak, settings, nextProblem])
+  }, [currentProblem, streak, settings, nextProblem, onTrial, clock, staircase])
+
+  // 键盘：数字键 1-4 选择对应位置的选项
+  useKeyboard(clock, (key) => {
+    const index = optionIndexFromKey(key, currentProblem.options.length)
+    if (index === null) return false
+    handleOptionClick(currentProblem.options[index], 'keyboard')
+    return true
+  }, feedback === null)
 
   const timerPercent = (timeLeft / settings.timeLimit) * 100
   const timerColor = timeLeft <= 10 ? 'var(--error)' : timeLeft <= 20 ? 'var(--accent)' : 'var(--primary)'
@@ -278,10 +342,17 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
 
       {/* Stats */}
       <div className="arith-stats">
-        <div className="game-stat">
-          <div className="game-stat-value">{score}</div>
-          <div className="game-stat-label">得分</div>
-        </div>
+        {staircase ? (
+          <div className="game-stat">
+            <div className="game-stat-value">{staircase.level()}</div>
+            <div className="game-stat-label">题目等级</div>
+          </div>
+        ) : (
+          <div className="game-stat">
+            <div className="game-stat-value">{score}</div>
+            <div className="game-stat-label">得分</div>
+          </div>
+        )}
         <div className="game-stat">
           <div className="game-stat-value">{totalCorrect}/{totalAttempted}</div>
           <div className="game-stat-label">正确率</div>
@@ -328,13 +399,97 @@ export default function ArithmeticChallenge({ difficulty, onComplete }: Props) {
               key={index}
               className={className}
               disabled={feedback !== null}
-              onClick={() => handleOptionClick(value)}
+              onClick={() => handleOptionClick(value, 'pointer')}
             >
+              <kbd className="key-badge key-badge-corner">{index + 1}</kbd>
               {value}
             </button>
           )
         })}
       </div>
+
+      <div className="key-hint">键盘：按数字键 1-{currentProblem.options.length} 选择</div>
     </div>
   )
 }
+
+const MAX_SCORE: Record<FixedDifficulty, number> = { easy: 500, normal: 800, hard: 1000 }
+
+/** 熟练者每题约 2 秒作答，加上答对后 0.4 秒的反馈 */
+const SKILLED_PACE_MS = 2400
+
+/** 限时内按熟练者的速度连续答对的得分 */
+function perfectScore(difficulty: FixedDifficulty): number {
+  const { timeLimit, pointsPerCorrect, comboBonus, maxComboExtra } = DIFFICULTY_SETTINGS[difficulty]
+  const answered = Math.floor((timeLimit * 1000) / SKILLED_PACE_MS)
+  let total = 0
+  for (let streak = 1; streak <= answered; streak++) {
+    total += pointsPerCorrect + Math.min((streak - 1) * comboBonus, maxComboExtra)
+  }
+  return total
+}
+
+export const definition = defineGame({
+  id: 'arithmetic',
+  name: '心算挑战',
+  icon: '🧮',
+  color: '#8E44AD',
+  domain: '计算能力',
+  description: '限时心算，锻炼数字加工能力',
+  howToPlay: '在限定时间内完成尽可能多的算术题，从四个选项中选出正确答案。连续答对有额外加分。',
+  prototype: '限时心算任务',
+  component: ArithmeticChallenge,
+  maxScore: (difficulty) => MAX_SCORE[difficulty],
+  perfectScore,
+  adaptive: {
+    parameter: '题目难度',
+    maxLevel: () => ADAPTIVE.maxLevel,
+    describe: (level) => {
+      const type = levelToProblemType(Math.round(level))
+      return `${DIFFICULTY_LABELS[type.difficulty]}第 ${type.tier + 1} 档`
+    },
+  },
+  intro: {
+    title: '计算能力',
+    content:
+      '心算能力涉及多个认知系统的协同运作，包括工作记忆、注意力和数字加工。日常计算练习能激活额叶和顶叶的广泛脑区，是一种高效的综合认知训练方式。维持数学技能有助于保持整体认知功能，降低认知衰退风险。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '每日心算练习益处多',
+      content:
+        '日本学者川岛隆太的研究发现，每天进行简单的心算练习能广泛激活前额叶皮层，改善多项认知功能。买菜时心算总价、分摊餐费等日常场景，都是锻炼计算能力的好机会。',
+    },
+    {
+      id: 2,
+      title: '数感与大脑可塑性',
+      content:
+        '数感是人类对数量的直觉理解能力，与顶内沟脑区密切相关。神经影像学研究显示，数学训练能增加该区域的灰质密度和功能连接，体现了大脑的终身可塑性。',
+    },
+    {
+      id: 3,
+      title: '棋牌游戏促进认知健康',
+      content:
+        '象棋、围棋、扑克、麻将等涉及计算和策略的游戏，需要持续调动数字推理和规划能力。法国一项大型研究发现，经常玩棋牌游戏的老年人，认知衰退风险降低约15%。',
+    },
+    {
+      id: 4,
+      title: '关注计算障碍',
+      content:
+        '计算障碍（Dyscalculia）是一种影响数字理解和运算的学习困难，约影响3-6%的人群。对于原本计算能力正常但逐渐出现困难的中老年人，计算能力下降可能提示需要进行认知健康评估。',
+    },
+    {
+      id: 5,
+      title: '财务管理是认知锻炼',
+      content:
+        '记账、预算规划和投资决策都需要综合运用计算、推理和执行功能。保持独立的财务管理能力既是认知健康的表现，也是持续锻炼大脑的有效方式。财务管理能力下降也是认知障碍的早期预警信号之一。',
+    },
+    {
+      id: 6,
+      title: '数学活动与痴呆预防',
+      content:
+        '多项纵向研究表明，经常进行涉及数字和计算的智力活动（如数独、心算、数学题），可以增加认知储备，降低患阿尔茨海默病的风险。这种保护效应即使在晚年才开始也能获益。',
+    },
+  ],
+})
@@ -1,34 +1,92 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Difficulty } from '../types'
+import { Difficulty, FixedDifficulty, GameMetrics, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { createStaircase } from '../utils/staircase'
+import { cancelSpeech, isSpeechSupported, speakDigit } from '../utils/speech'
+import { digitFromKey, useKeyboard } from '../utils/keyboard'
+import { defineGame } from './registry'
 
 interface Props {
   difficulty: Difficulty
-  onComplete: (score: number) => void
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
+  onComplete: (score: number, metrics: GameMetrics) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 const SETTINGS: Record<Difficulty, { startLength: number; maxLength: number; displayTime: number }> = {
-  easy:   { startLength: 3, maxLength: 6,  displayTime: 1200 },
-  normal: { startLength: 3, maxLength: 8,  displayTime: 1000 },
-  hard:   { startLength: 4, maxLength: 10, displayTime: 800  },
+  easy:     { startLength: 3, maxLength: 6,  displayTime: 1200 },
+  normal:   { startLength: 3, maxLength: 8,  displayTime: 1000 },
+  hard:     { startLength: 4, maxLength: 10, displayTime: 800  },
+  // 自适应：位数按阶梯在 2 ~ maxLength 之间调整
+  adaptive: { startLength: 3, maxLength: 10, displayTime: 1000 },
 }
 
-function generateSequence(length: number): number[] {
+const ADAPTIVE_MIN_LENGTH = 2
+const ADAPTIVE_MAX_TRIALS = 40
+
+/** 固定难度下同一位数的作答机会，用完即结束 */
+function attemptsPerLength(difficulty: Difficulty): number {
+  if (difficulty === 'adaptive') return ADAPTIVE_MAX_TRIALS
+  return difficulty === 'easy' ? 3 : 2
+}
+
+/** 作答条件：倒背、顺背、排序（从小到大） */
+type Mode = 'backward' | 'forward' | 'sequencing'
+
+const MODES: Record<Mode, { label: string; hint: string }> = {
+  backward:   { label: '倒背', hint: '请倒序输入' },
+  forward:    { label: '顺背', hint: '请按原顺序输入' },
+  sequencing: { label: '排序', hint: '请从小到大输入' },
+}
+
+function isMode(value: string | undefined): value is Mode {
+  return value !== undefined && value in MODES
+}
+
+function expectedAnswer(sequence: number[], mode: Mode): number[] {
+  if (mode === 'forward') return sequence
+  if (mode === 'backward') return [...sequence].reverse()
+  return [...sequence].sort((a, b) => a - b)
+}
+
+function generateSequence(length: number, rng: Rng): number[] {
   const seq: number[] = []
   for (let i = 0; i < length; i++) {
-    seq.push(Math.floor(Math.random() * 10))
+    seq.push(rng.int(0, 9))
   }
   return seq
 }
 
-type Phase = 'showing' | 'input' | 'feedback' | 'done'
+/**
+ * 开局时按种子为每个 (位数, 第几次) 生成好数字串，之后按下标取用，
+ * 同一种子出的题不随玩家的对错而变。下标为位数
+ */
+function generateSequences(difficulty: Difficulty, rng: Rng): number[][][] {
+  const { startLength, maxLength } = SETTINGS[difficulty]
+  const minLength = difficulty === 'adaptive' ? ADAPTIVE_MIN_LENGTH : startLength
+  const sequences: number[][][] = []
+  for (let length = minLength; length <= maxLength; length++) {
+    sequences[length] = Array.from({ length: attemptsPerLength(difficulty) }, () => generateSequence(length, rng))
+  }
+  return sequences
+}
 
-export default function DigitSpan({ difficulty, onComplete }: Props) {
+type Phase = 'showing' | 'input' | 'feedback'
+
+export default function DigitSpan({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = SETTINGS[difficulty]
+  const mode: Mode = isMode(options.mode) ? options.mode : 'backward'
+  // 浏览器不支持语音时退回看数字
+  const audio = options.presentation === 'audio' && isSpeechSupported()
 
+  const [sequences] = useState(() => generateSequences(difficulty, rng))
   const [phase, setPhase] = useState<Phase>('showing')
-  const [currentSequence, setCurrentSequence] = useState<number[]>(() =>
-    generateSequence(settings.startLength)
-  )
+  const [currentSequence, setCurrentSequence] = useState<number[]>(() => sequences[settings.startLength][0])
   const [playerInput, setPlayerInput] = useState<number[]>([])
   const [sequenceLength, setSequenceLength] = useState(settings.startLength)
   const [score, setScore] = useState(0)
@@ -37,21 +95,42 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
   const [longestCorrect, setLongestCorrect] = useState(0)
   const [lastCorrect, setLastCorrect] = useState<boolean | null>(null)
   const [firstTryAtLength, setFirstTryAtLength] = useState(true)
+  // 听数字时暂停会打断朗读，继续后加一，重新朗读并完整呈现当前数字
+  const [replay, setReplay] = useState(0)
+  const [staircase] = useState(() => difficulty === 'adaptive'
+    ? createStaircase({ start: settings.startLength, min: ADAPTIVE_MIN_LENGTH, max: settings.maxLength, maxTrials: ADAPTIVE_MAX_TRIALS })
+    : null)
+  // 各位数已出过几串，下一串取对应下标；开局的第一串已用掉
+  const attemptsRef = useRef(new Map([[settings.startLength, 1]]))
 
-  const intervalRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const intervalRef = useRef<TimerId | null>(null)
+  // 反馈结束后进入下一串的计时，卸载或"再来一次"时需要清掉
+  const feedbackRef = useRef<TimerId | null>(null)
   const gameOverRef = useRef(false)
+  const inputStartedAt = useRef(0)
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress(staircase
+      ? { round: staircase.trials(), total: null, score: staircase.threshold() }
+      : {
+          round: sequenceLength - settings.startLength,
+          total: settings.maxLength - settings.startLength + 1,
+          score,
+        })
+  }, [phase, sequenceLength, score, settings.startLength, settings.maxLength, staircase, onProgress])
 
   // Display digits one by one during 'showing' phase
   useEffect(() => {
     if (phase !== 'showing') return
 
     // Start showing after a brief delay for the "请记住以下数字" message
-    const startDelay = setTimeout(() => {
+    const startDelay = clock.setTimeout(() => {
       setShowingIndex(0)
     }, 1000)
 
-    return () => clearTimeout(startDelay)
-  }, [phase, currentSequence])
+    return () => clock.clearTimeout(startDelay)
+  }, [phase, currentSequence, clock])
 
   // Advance through digits during showing phase
   useEffect(() => {
@@ -59,34 +138,47 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
 
     if (showingIndex >= currentSequence.length) {
       // All digits shown, move to input phase
-      const timeout = setTimeout(() => {
+      const timeout = clock.setTimeout(() => {
         setShowingIndex(-1)
         setPhase('input')
+        inputStartedAt.current = Date.now()
       }, 400)
-      return () => clearTimeout(timeout)
+      return () => clock.clearTimeout(timeout)
     }
 
     // Show next digit after displayTime
-    intervalRef.current = setTimeout(() => {
+    intervalRef.current = clock.setTimeout(() => {
       setShowingIndex(prev => prev + 1)
     }, settings.displayTime)
 
     return () => {
       if (intervalRef.current) {
-        clearTimeout(intervalRef.current)
+        clock.clearTimeout(intervalRef.current)
         intervalRef.current = null
       }
     }
-  }, [phase, showingIndex, currentSequence.length, settings.displayTime])
+  }, [phase, showingIndex, currentSequence.length, settings.displayTime, clock, replay])
+
+  // 听数字：每个数字在呈现的同一时刻朗读，节奏与看数字一致
+  useEffect(() => {
+    if (!audio || phase !== 'showing' || showingIndex < 0 || showingIndex >= currentSequence.length) return
+    speakDigit(currentSequence[showingIndex])
+  }, [audio, phase, showingIndex, currentSequence, replay])
+
+  // 暂停时停止朗读，继续后重读被打断的数字
+  useEffect(() => clock.subscribe(() => {
+    if (clock.isPaused()) cancelSpeech()
+    else if (audio) setReplay(n => n + 1)
+  }), [clock, audio])
 
   // Clean up on unmount
   useEffect(() => {
     return () => {
-      if (intervalRef.current) {
-        clearTimeout(intervalRef.current)
-      }
+      clock.clearTimeout(intervalRef.current)
+      clock.clearTimeout(feedbackRef.current)
+      cancelSpeech()
     }
-  }, [])
+  }, [clock])
 
   const handleNumberPress = useCallback((num: number) => {
     if (phase !== 'input' || gameOverRef.current) return
@@ -98,36 +190,63 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
     setPlayerInput(prev => prev.slice(0, -1))
   }, [phase])
 
-  const handleConfirm = useCallback(() => {
+  const nextSequence = useCallback((length: number) => {
+    const attempt = attemptsRef.current.get(length) ?? 0
+    attemptsRef.current.set(length, attempt + 1)
+    return sequences[length][attempt]
+  }, [sequences])
+
+  const handleConfirm = useCallback((input: InputModality) => {
     if (phase !== 'input' || gameOverRef.current) return
 
-    const reversed = [...currentSequence].reverse()
-    const isCorrect = playerInput.length === reversed.length &&
-      playerInput.every((digit, i) => digit === reversed[i])
+    const expected = expectedAnswer(currentSequence, mode)
+    const isCorrect = playerInput.length === expected.length &&
+      playerInput.every((digit, i) => digit === expected[i])
+    const newLongest = isCorrect ? Math.max(longestCorrect, sequenceLength) : longestCorrect
 
     setLastCorrect(isCorrect)
+    onTrial(respondedTrial(currentSequence.join(''), inputStartedAt.current, playerInput.join(''), isCorrect, input))
+
+    // 自适应：按阶梯决定下一串的位数，反转次数够了即结束
+    if (staircase) {
+      staircase.record(isCorrect)
+      setLongestCorrect(newLongest)
+      setPhase('feedback')
+      feedbackRef.current = clock.setTimeout(() => {
+        if (staircase.done()) {
+          gameOverRef.current = true
+          onComplete(staircase.threshold(), { maxSpan: newLongest })
+          return
+        }
+        const nextLength = staircase.level()
+        setSequenceLength(nextLength)
+        setCurrentSequence(nextSequence(nextLength))
+        setPlayerInput([])
+        setShowingIndex(-1)
+        setPhase('showing')
+      }, isCorrect ? 1500 : 2000)
+      return
+    }
 
     if (isCorrect) {
       const roundScore = sequenceLength * 20 + (firstTryAtLength ? 10 : 0)
       const newScore = score + roundScore
-      const newLongest = Math.max(longestCorrect, sequenceLength)
       setScore(newScore)
       setLongestCorrect(newLongest)
       setFailCount(0)
       setPhase('feedback')
 
       // After feedback, advance to next round
-      setTimeout(() => {
+      feedbackRef.current = clock.setTimeout(() => {
         const nextLength = sequenceLength + 1
         if (nextLength > settings.maxLength) {
           // Reached max length, game ends
           gameOverRef.current = true
-          setPhase('done')
-          onComplete(newScore)
+          onComplete(newScore, { maxSpan: newLongest })
           return
         }
         setSequenceLength(nextLength)
-        setCurrentSequence(generateSequence(nextLength))
+        setCurrentSequence(nextSequence(nextLength))
         setPlayerInput([])
         setShowingIndex(-1)
         setFirstTryAtLength(true)
@@ -137,20 +256,18 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
       const newFailCount = failCount + 1
       setPhase('feedback')
 
-      const maxFails = difficulty === 'easy' ? 3 : 2
-      if (newFailCount >= maxFails) {
+      if (newFailCount >= attemptsPerLength(difficulty)) {
         // Two consecutive failures at same length, game over
         const finalScore = score
-        setTimeout(() => {
+        feedbackRef.current = clock.setTimeout(() => {
           gameOverRef.current = true
-          setPhase('done')
-          onComplete(finalScore)
+          onComplete(finalScore, { maxSpan: newLongest })
         }, 2000)
       } else {
         setFailCount(newFailCount)
         // Give another chance at the same length
-        setTimeout(() => {
-          setCurrentSequence(generateSequence(sequenceLength))
+        feedbackRef.current = clock.setTimeout(() => {
+          setCurrentSequence(nextSequence(sequenceLength))
           setPlayerInput([])
           setShowingIndex(-1)
           setFirstTryAtLength(false)
@@ -158,10 +275,18 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
         }, 2000)
       }
     }
-  }, [phase, currentSequence, playerInput, sequenceLength, score, failCount, difficulty, settings.maxLength, onComplete, longestCorrect, firstTryAtLength])
+  }, [phase, currentSequence, playerInput, sequenceLength, score, failCount, difficulty, settings.maxLength, onComplete, onTrial, longestCorrect, firstTryAtLength, nextSequence, clock, staircase, mode])
 
-  const reversedSequence = [...currentSequence].reverse()
 
+  // 键盘：数字键输入，Backspace 删除，Enter 确认
+  useKeyboard(clock, (key) => {
+    const digit = digitFromKey(key)
+    if (digit !== null) handleNumberPress(digit)
+    else if (key === 'Backspace') handleBackspace()
+    else if (key === 'Enter') handleConfirm('keyboard')
+    else return false
+    return true
+  }, phase === 'input')
   return (
     <div className="game-area">
       <div className="game-stats">
@@ -169,26 +294,35 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
           <div className="game-stat-value">{sequenceLength}</div>
           <div className="game-stat-label">序列长度</div>
         </div>
-        <div className="game-stat">
-          <div className="game-stat-value">{score}</div>
-          <div className="game-stat-label">得分</div>
-        </div>
+        {staircase ? (
+          <div className="game-stat">
+            <div className="game-stat-value">{staircase.reversals().length}</div>
+            <div className="game-stat-label">反转次数</div>
+          </div>
+        ) : (
+          <div className="game-stat">
+            <div className="game-stat-value">{score}</div>
+            <div className="game-stat-label">得分</div>
+          </div>
+        )}
       </div>
 
       {phase === 'showing' && (
         <div className="digit-show-area">
           {showingIndex < 0 ? (
-            <div className="digit-hint">请记住以下数字</div>
+            <div className="digit-hint">{audio ? '请仔细听以下数字' : '请记住以下数字'}</div>
           ) : showingIndex < currentSequence.length ? (
             <>
               <div className="digit-show-counter">第 {showingIndex + 1}/{currentSequence.length} 个</div>
-              <div className="digit-big-num">{currentSequence[showingIndex]}</div>
+              {audio
+                ? <div className="digit-big-num" aria-hidden>🔊</div>
+                : <div className="digit-big-num">{currentSequence[showingIndex]}</div>}
             </>
           ) : null}
           <div className="digit-show-boxes">
             {currentSequence.map((d, i) => (
               <div key={i} className={`digit-show-box${i < showingIndex ? ' revealed' : ''}${i === showingIndex ? ' current' : ''}`}>
-                {i <= showingIndex && i < currentSequence.length ? d : ''}
+                {i <= showingIndex && i < currentSequence.length ? (audio ? '•' : d) : ''}
               </div>
             ))}
           </div>
@@ -197,7 +331,7 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
 
       {phase === 'input' && (
         <div className="digit-input-area">
-          <div className="digit-hint">请倒序输入</div>
+          <div className="digit-hint">{MODES[mode].hint}</div>
 
           <div className="digit-input-boxes">
             {currentSequence.map((_, i) => (
@@ -219,10 +353,11 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
             <button className="digit-pad-btn" onClick={() => handleNumberPress(0)}>
               0
             </button>
-            <button className="digit-pad-btn digit-pad-confirm" onClick={handleConfirm}>
+            <button className="digit-pad-btn digit-pad-confirm" onClick={() => handleConfirm('pointer')}>
               &#10003;
             </button>
           </div>
+          <div className="key-hint">键盘：数字键输入 · Backspace 删除 · Enter 确认</div>
         </div>
       )}
 
@@ -234,7 +369,7 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
             <>
               <div className="digit-feedback-fail">错误</div>
               <div className="digit-feedback-detail">
-                正确答案: <strong>{reversedSequence.join(' ')}</strong>
+                正确答案: <strong>{expectedAnswer(currentSequence, mode).join(' ')}</strong>
               </div>
               <div className="digit-feedback-detail">
                 你的输入: <strong>{playerInput.join(' ') || '(空)'}</strong>
@@ -243,15 +378,92 @@ export default function DigitSpan({ difficulty, onComplete }: Props) {
           )}
         </div>
       )}
-
-      {phase === 'done' && (
-        <div className="digit-show-area">
-          <div className="digit-hint">测试结束</div>
-          <div className="digit-feedback-detail">
-            最长序列: <strong>{longestCorrect}</strong>
-          </div>
-        </div>
-      )}
     </div>
   )
 }
+
+/** 每个长度第一次就答对，一直到最长 */
+function perfectScore(difficulty: FixedDifficulty): number {
+  const { startLength, maxLength } = SETTINGS[difficulty]
+  let total = 0
+  for (let length = startLength; length <= maxLength; length++) total += length * 20 + 10
+  return total
+}
+
+export const definition = defineGame({
+  id: 'digitSpan',
+  name: '数字广度',
+  icon: '🔢',
+  color: '#1ABC9C',
+  domain: '工作记忆',
+  description: '记住数字序列，倒背、顺背或排序输入',
+  howToPlay: '屏幕依次显示（或朗读）一串数字，记住后按要求输入：倒背如看到 3-1-2 输入 2-1-3，顺背输入 3-1-2，排序则从小到大输入 1-2-3。连续两次错误则结束。',
+  prototype: '数字广度测验（顺背、倒背、排序）',
+  component: DigitSpan,
+  maxScore: perfectScore,
+  perfectScore,
+  options: [
+    {
+      id: 'mode',
+      label: '作答',
+      choices: (Object.keys(MODES) as Mode[]).map((value) => ({ value, label: MODES[value].label })),
+    },
+    {
+      id: 'presentation',
+      label: '呈现',
+      choices: [
+        { value: 'visual', label: '看数字' },
+        { value: 'audio', label: '听数字' },
+      ],
+    },
+  ],
+  metrics: { maxSpan: '最长广度' },
+  adaptive: {
+    parameter: '数字位数',
+    maxLevel: () => SETTINGS.adaptive.maxLength,
+    describe: (level) => `${level} 位`,
+  },
+  intro: {
+    title: '工作记忆',
+    content:
+      '工作记忆是大脑的"心理工作台"，用于临时保持和操作信息。数字倒背是经典的神经心理学测验，要求在头脑中暂存并反转信息序列，深度考验工作记忆容量。研究发现，工作记忆训练可以迁移到日常生活的多种活动中，如阅读理解、心算和问题解决。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '组块策略提升记忆容量',
+      content:
+        '将零散信息组合成有意义的"组块"是扩展工作记忆的经典策略。例如，记忆手机号时将11位数字分成3-4个小组。这种策略利用长期记忆辅助短期存储，有效突破容量限制。',
+    },
+    {
+      id: 2,
+      title: '神奇的7±2法则',
+      content:
+        '心理学家米勒发现，人类工作记忆的容量约为7±2个信息单元。这意味着大多数人能同时记住5-9个独立项目。了解这个规律，可以帮助我们更科学地安排学习和工作中的信息量。',
+    },
+    {
+      id: 3,
+      title: '冥想增强工作记忆',
+      content:
+        '多项研究证实，规律的冥想练习能改善工作记忆容量。每天15-20分钟的专注冥想，持续8周后，工作记忆测试成绩可提升约15%。冥想通过增强前额叶与顶叶的功能连接来发挥作用。',
+    },
+    {
+      id: 4,
+      title: '双重N-back训练',
+      content:
+        '双重N-back是目前研究最多的工作记忆训练范式之一，要求同时追踪视觉位置和听觉刺激。虽然学术界对其迁移效果仍有争议，但多数研究支持它能直接改善工作记忆表现。',
+    },
+    {
+      id: 5,
+      title: '工作记忆与学习工作表现',
+      content:
+        '工作记忆容量与阅读理解、数学推理、问题解决和学习新技能密切相关。工作记忆能力强的人更善于在复杂任务中筛选关键信息、排除干扰，从而表现更出色。',
+    },
+    {
+      id: 6,
+      title: '工作记忆的增龄性变化',
+      content:
+        '工作记忆从60岁左右开始明显下降，主要表现为信息操纵和更新能力减弱。但好消息是，通过持续的认知训练、有氧运动和保持社交活跃，可以有效延缓这一衰退过程。',
+    },
+  ],
+})
@@ -1,8 +1,18 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { FixedDifficulty, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock } from '../utils/clock'
+import { gridPositions, useGridCursor } from '../utils/keyboard'
+import { defineGame } from './registry'
 
 interface Props {
   difficulty: 'easy' | 'normal' | 'hard'
+  rng: Rng
+  clock: GameClock
   onComplete: (score: number) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 interface Card {
@@ -20,19 +30,10 @@ const DIFFICULTY_SETTINGS = {
   hard:   { pairs: 8, cols: 4, rows: 4, timeLimit: 60 },
 } as const
 
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array]
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[arr[i], arr[j]] = [arr[j], arr[i]]
-  }
-  return arr
-}
-
-function createCards(pairs: number): Card[] {
-  const icons = shuffle(CARD_ICONS).slice(0, pairs)
+function createCards(pairs: number, rng: Rng): Card[] {
+  const icons = rng.shuffle(CARD_ICONS).slice(0, pairs)
   const doubled = [...icons, ...icons]
-  const shuffled = shuffle(doubled)
+  const shuffled = rng.shuffle(doubled)
   return shuffled.map((icon, index) => ({
     id: index,
     icon,
@@ -41,10 +42,10 @@ function createCards(pairs: number): Card[] {
   }))
 }
 
-export default function MemoryMatch({ difficulty, onComplete }: Props) {
+export default function MemoryMatch({ difficulty, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = DIFFICULTY_SETTINGS[difficulty]
 
-  const [cards, setCards] = useState<Card[]>(() => createCards(settings.pairs))
+  const [cards, setCards] = useState<Card[]>(() => createCards(settings.pairs, rng))
   const [flippedIndices, setFlippedIndices] = useState<number[]>([])
   const [errors, setErrors] = useState(0)
   const [matches, setMatches] = useState(0)
@@ -54,23 +55,29 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
   const isChecking = useRef(false)
   const gameOver = useRef(false)
   const startTime = useRef<number>(0)
+  const firstFlipTime = useRef<number>(0)
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress({ round: matches, total: settings.pairs, score: Math.max(0, matches * 100 - errors * 10) })
+  }, [matches, errors, settings.pairs, onProgress])
 
   // Start timer on first card click (hard mode)
   useEffect(() => {
     if (!gameStarted || settings.timeLimit === 0) return
 
-    const interval = setInterval(() => {
+    const interval = clock.setInterval(() => {
       setTimeLeft(prev => {
         if (prev <= 1) {
-          clearInterval(interval)
+          clock.clearInterval(interval)
           return 0
         }
         return prev - 1
       })
     }, 1000)
 
-    return () => clearInterval(interval)
-  }, [gameStarted, settings.timeLimit])
+    return () => clock.clearInterval(interval)
+  }, [gameStarted, settings.timeLimit, clock])
 
   // Handle time running out in hard mode
   useEffect(() => {
@@ -90,12 +97,12 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
       if (settings.timeLimit > 0) {
         timeUsed = settings.timeLimit - timeLeft
       } else if (startTime.current > 0) {
-        timeUsed = Math.floor((Date.now() - startTime.current) / 1000)
+        timeUsed = Math.floor((clock.now() - startTime.current) / 1000)
       }
       const score = calculateScore(matches, errors, timeUsed)
       onComplete(score)
     }
-  }, [matches, settings.pairs, settings.timeLimit, timeLeft, errors, onComplete])
+  }, [matches, settings.pairs, settings.timeLimit, timeLeft, errors, onComplete, clock])
 
   const calculateScore = useCallback((matchCount: number, errorCount: number, timeUsed: number): number => {
     let score = matchCount * 100 - errorCount * 10
@@ -105,7 +112,7 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
     return Math.max(0, score)
   }, [settings.timeLimit])
 
-  const handleCardClick = useCallback((index: number) => {
+  const handleCardClick = useCallback((index: number, input: InputModality) => {
     if (gameOver.current) return
     if (isChecking.current) return
     if (cards[index].flipped || cards[index].matched) return
@@ -114,7 +121,7 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
     // Start the game on first click
     if (!gameStarted) {
       setGameStarted(true)
-      startTime.current = Date.now()
+      startTime.current = clock.now()
     }
 
     const newCards = [...cards]
@@ -124,13 +131,25 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
     const newFlipped = [...flippedIndices, index]
     setFlippedIndices(newFlipped)
 
+    if (newFlipped.length === 1) {
+      firstFlipTime.current = Date.now()
+    }
+
     if (newFlipped.length === 2) {
       isChecking.current = true
       const [first, second] = newFlipped
+      // 一次试次 = 翻开一对：刺激为第一张牌，作答为第二张牌
+      onTrial(respondedTrial(
+        `${first}:${newCards[first].icon}`,
+        firstFlipTime.current,
+        `${second}:${newCards[second].icon}`,
+        newCards[first].icon === newCards[second].icon,
+        input,
+      ))
 
       if (newCards[first].icon === newCards[second].icon) {
         // Match found
-        setTimeout(() => {
+        clock.setTimeout(() => {
           setCards(prev => prev.map((card, i) =>
             i === first || i === second
               ? { ...card, matched: true }
@@ -143,7 +162,7 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
       } else {
         // No match
         setErrors(prev => prev + 1)
-        setTimeout(() => {
+        clock.setTimeout(() => {
           setCards(prev => prev.map((card, i) =>
             i === first || i === second
               ? { ...card, flipped: false }
@@ -154,7 +173,11 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
         }, 800)
       }
     }
-  }, [cards, flippedIndices, gameStarted])
+  }, [cards, flippedIndices, gameStarted, onTrial, clock])
+
+  // 键盘：方向键移动光标，回车或空格翻牌
+  const positions = useMemo(() => gridPositions(cards.length, settings.cols), [cards.length, settings.cols])
+  const cursor = useGridCursor(clock, positions, (index) => handleCardClick(index, 'keyboard'))
 
   return (
     <div className="game-area">
@@ -187,9 +210,10 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
             className={
               'memory-card' +
               (card.flipped ? ' flipped' : '') +
-              (card.matched ? ' matched' : '')
+              (card.matched ? ' matched' : '') +
+              (cursor === index ? ' kb-cursor' : '')
             }
-            onClick={() => handleCardClick(index)}
+            onClick={() => handleCardClick(index, 'pointer')}
           >
             <div className="memory-card-inner">
               <div className="memory-card-face memory-card-front">?</div>
@@ -198,6 +222,73 @@ export default function MemoryMatch({ difficulty, onComplete }: Props) {
           </div>
         ))}
       </div>
+
+      <div className="key-hint">键盘：方向键移动光标，回车或空格翻牌</div>
     </div>
   )
 }
+
+const MAX_SCORE: Record<FixedDifficulty, number> = { easy: 300, normal: 600, hard: 920 }
+
+/** 熟练者不翻错配完 8 对约需 25 秒 */
+const SKILLED_SECONDS = 25
+
+export const definition = defineGame({
+  id: 'memory',
+  name: '记忆翻翻乐',
+  icon: '🧠',
+  color: '#9B59B6',
+  domain: '记忆力',
+  description: '翻牌配对，训练短时记忆',
+  howToPlay: '点击卡片翻开，找到两张相同的卡片即可配对。用最少的步数完成所有配对。',
+  prototype: '配对记忆任务',
+  component: MemoryMatch,
+  maxScore: (difficulty) => MAX_SCORE[difficulty],
+  perfectScore: (difficulty) => {
+    const { pairs, timeLimit } = DIFFICULTY_SETTINGS[difficulty]
+    return pairs * 100 + (timeLimit > 0 ? (timeLimit - SKILLED_SECONDS) * 2 : 0)
+  },
+  intro: {
+    title: '记忆力',
+    content:
+      '记忆力是大脑储存和提取信息的能力，是日常生活的基石。研究表明，通过有规律的记忆训练，可以增强海马体功能，延缓与年龄相关的记忆衰退。配对记忆任务是临床常用的记忆评估与训练方法。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '地中海饮食护记忆',
+      content:
+        '研究表明，富含深海鱼、坚果、浆果和橄榄油的地中海饮食可降低阿尔茨海默病风险达40%。每周吃2-3次深海鱼类，为大脑补充omega-3脂肪酸。',
+    },
+    {
+      id: 2,
+      title: '睡眠是记忆的"保存键"',
+      content:
+        '深度睡眠期间，大脑会将白天的短时记忆转化为长期记忆。建议每晚保持7-8小时高质量睡眠，睡前避免使用电子设备。',
+    },
+    {
+      id: 3,
+      title: '"间隔重复"记忆法',
+      content:
+        '与其一次性反复记忆，不如分多次间隔复习。研究证实，间隔1天、3天、7天的复习节奏能将记忆保留率提高200%。',
+    },
+    {
+      id: 4,
+      title: '社交互动强化记忆',
+      content:
+        '与朋友交流、参加社交活动需要调用大量记忆资源。哈佛大学研究发现，社交活跃的老年人记忆衰退速度减慢70%。',
+    },
+    {
+      id: 5,
+      title: '运动是最好的记忆药',
+      content:
+        '有氧运动能促进大脑分泌脑源性神经营养因子（BDNF），增强海马体神经元的再生。每周150分钟中等强度运动即可显著改善记忆。',
+    },
+    {
+      id: 6,
+      title: '多感官编码助记忆',
+      content:
+        '同时调动视觉、听觉、触觉来记忆信息，比单一通道更有效。学习新知识时，边读边写边说，可以建立更丰富的记忆痕迹。',
+    },
+  ],
+})
@@ -1,9 +1,20 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { Difficulty } from '../types'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { Difficulty, FixedDifficulty, GameMetrics, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { createStaircase } from '../utils/staircase'
+import { gridPositions, Point, useGridCursor } from '../utils/keyboard'
+import { defineGame } from './registry'
 
 interface Props {
   difficulty: Difficulty
-  onComplete: (score: number) => void
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
+  onComplete: (score: number, metrics: GameMetrics) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 const SETTINGS: Record<Difficulty, {
@@ -15,14 +26,55 @@ const SETTINGS: Record<Difficulty, {
   easy:   { gridSize: 3, startLength: 2, showSpeed: 1000, maxLength: 6 },
   normal: { gridSize: 4, startLength: 3, showSpeed: 600, maxLength: 8 },
   hard:   { gridSize: 5, startLength: 4, showSpeed: 400, maxLength: 10 },
+  // 自适应：路径长度按阶梯在 2 ~ maxLength 之间调整
+  adaptive: { gridSize: 4, startLength: 3, showSpeed: 600, maxLength: 10 },
+}
+
+const ADAPTIVE_MIN_LENGTH = 2
+
+/**
+ * 经典 Corsi 积木板：9 块积木的不规则位置（积木中心，占板面宽高的百分比），
+ * 仿照原版积木板的排布，任意三块不在同一直线或规则网格上。
+ */
+const CORSI_BLOCKS: Point[] = [
+  { x: 14, y: 80 },
+  { x: 40, y: 88 },
+  { x: 74, y: 76 },
+  { x: 24, y: 52 },
+  { x: 54, y: 60 },
+  { x: 86, y: 46 },
+  { x: 12, y: 18 },
+  { x: 46, y: 28 },
+  { x: 76, y: 12 },
+]
+
+/** 方格布局每过一关按路径格数计分 */
+const GRID_POINTS_PER_BLOCK = 50
+/** 经典 Corsi 每个长度施测两次 */
+const CORSI_TRIALS_PER_LENGTH = 2
+/** 每个长度两次都对时的得分与方格模式一次过关相同 */
+const CORSI_POINTS_PER_BLOCK = 25
+
+/**
+ * Corsi 广度为至少答对一次的最长序列长度；
+ * 总分 = 广度 × 答对的试次数（Kessels 等, 2000）。
+ */
+function corsiMetrics(span: number, correctTrials: number): GameMetrics {
+  return { corsiSpan: span, corsiTotal: span * correctTrials }
+}
+
+/** 路径不重复经过同一格，长度不能超过格子数；Corsi 只有 9 块积木 */
+function lengthCapOf(difficulty: Difficulty, options: GameOptions): number {
+  const { gridSize, maxLength } = SETTINGS[difficulty]
+  return Math.min(maxLength, options.layout === 'corsi' ? CORSI_BLOCKS.length : gridSize * gridSize)
 }
 
 type Phase = 'ready' | 'showing' | 'input' | 'success' | 'error' | 'gameover'
 
-function generateSequence(length: number, totalCells: number): number[] {
+function generateSequence(length: number, totalCells: number, rng: Rng): number[] {
   const indices: number[] = []
   while (indices.length < length) {
-    const r = Math.floor(Math.random() * totalCells)
+    const r = rng.int(0, totalCells - 1)
     if (!indices.includes(r)) {
       indices.push(r)
     }
@@ -30,9 +82,12 @@ function generateSequence(length: number, totalCells: number): number[] {
   return indices
 }
 
-export default function PathMemory({ difficulty, onComplete }: Props) {
-  const { gridSize, startLength, showSpeed, maxLength } = SETTINGS[difficulty]
-  const totalCells = gridSize * gridSize
+export default function PathMemory({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
+  const { gridSize, startLength, showSpeed } = SETTINGS[difficulty]
+  const corsi = options.layout === 'corsi'
+  const backward = options.recall === 'backward'
+  const totalCells = corsi ? CORSI_BLOCKS.length : gridSize * gridSize
+  const lengthCap = lengthCapOf(difficulty, options)
 
   const [phase, setPhase] = useState<Phase>('ready')
   const [sequence, setSequence] = useState<number[]>([])
@@ -42,9 +97,28 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
   const [score, setScore] = useState(0)
   const [retryUsed, setRetryUsed] = useState(false)
   const [statusText, setStatusText] = useState('准备...')
-
-  const timeoutsRef = useRef<ReturnType<typeof setTimeout>[]>([])
+  const [correctTrials, setCorrectTrials] = useState(0)
+  const [longestCorrect, setLongestCorrect] = useState(0)
+  // 经典 Corsi：当前长度的第几次试次（0 / 1）及其中答错的次数
+  const [trialAtLength, setTrialAtLength] = useState(0)
+  const [lengthFails, setLengthFails] = useState(0)
+  const [staircase] = useState(() => difficulty === 'adaptive'
+    ? createStaircase({ start: startLength, min: ADAPTIVE_MIN_LENGTH, max: lengthCap })
+    : null)
+
+  // 倒序模式要求从最后亮起的格子点回第一个
+  const expected = backward ? [...sequence].reverse() : sequence
+
+  const timeoutsRef = useRef<TimerId[]>([])
   const phaseRef = useRef<Phase>(phase)
+  const inputStartedAt = useRef(0)
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress(staircase
+      ? { round: staircase.trials(), total: null, score: staircase.threshold() }
+      : { round: currentLength - startLength, total: lengthCap - startLength + 1, score })
+  }, [phase, currentLength, startLength, lengthCap, score, staircase, onProgress])
 
   // Keep phaseRef in sync
   useEffect(() => {
@@ -54,21 +128,21 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
   // Cleanup all timeouts on unmount
   useEffect(() => {
     return () => {
-      timeoutsRef.current.forEach(clearTimeout)
+      timeoutsRef.current.forEach(clock.clearTimeout)
       timeoutsRef.current = []
     }
-  }, [])
+  }, [clock])
 
   const clearAllTimeouts = useCallback(() => {
-    timeoutsRef.current.forEach(clearTimeout)
+    timeoutsRef.current.forEach(clock.clearTimeout)
     timeoutsRef.current = []
-  }, [])
+  }, [clock])
 
   const addTimeout = useCallback((fn: () => void, delay: number) => {
-    const id = setTimeout(fn, delay)
+    const id = clock.setTimeout(fn, delay)
     timeoutsRef.current.push(id)
     return id
-  }, [])
+  }, [clock])
 
   const startShowingSequence = useCallback((seq: number[]) => {
     setPhase('showing')
@@ -97,16 +171,18 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
     addTimeout(() => {
       setHighlightIndex(-1)
       setPhase('input')
-      setStatusText('请重复路径')
+      setStatusText(backward ? '请倒序点击路径' : '请重复路径')
+      inputStartedAt.current = Date.now()
     }, delay)
-  }, [showSpeed, addTimeout])
+  }, [showSpeed, backward, addTimeout])
 
-  const startRound = useCallback((length: number) => {
+  const startRound = useCallback((length: number, trial = 0) => {
     clearAllTimeouts()
-    const seq = generateSequence(length, totalCells)
+    const seq = generateSequence(length, totalCells, rng)
     setSequence(seq)
     setPlayerInput([])
     setRetryUsed(false)
+    setTrialAtLength(trial)
     setPhase('ready')
     setStatusText('准备...')
     setHighlightIndex(-1)
@@ -114,93 +190,140 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
     addTimeout(() => {
       startShowingSequence(seq)
     }, 1000)
-  }, [totalCells, clearAllTimeouts, addTimeout, startShowingSequence])
+  }, [totalCells, rng, clearAllTimeouts, addTimeout, startShowingSequence])
 
-  // Start the first round on mount
+  // 挂载时开始第一轮；之后的轮次由作答结果推进，不随 startRound 的更新重新开始
+  const startRoundRef = useRef(startRound)
   useEffect(() => {
-    startRound(startLength)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+    startRoundRef.current(startLength)
+  }, [startLength])
 
-  const handleCellClick = useCallback((cellIndex: number) => {
+  const handleCellClick = useCallback((cellIndex: number, input: InputModality) => {
     if (phaseRef.current !== 'input') return
 
     const newInput = [...playerInput, cellIndex]
     setPlayerInput(newInput)
 
     const stepIndex = newInput.length - 1
-    const isCorrectSoFar = newInput[stepIndex] === sequence[stepIndex]
-
-    if (newInput.length === sequence.length) {
-      // Player has entered all cells
-      const allCorrect = newInput.every((val, i) => val === sequence[i])
-
-      if (allCorrect) {
-        const earned = sequence.length * 50
-        const newScore = score + earned
-        setScore(newScore)
-        setPhase('success')
-        setStatusText('正确! 下一关')
-
-        const nextLength = currentLength + 1
-        if (nextLength > maxLength) {
-          // Game complete - reached max
-          addTimeout(() => {
-            setPhase('gameover')
-            onComplete(newScore)
-          }, 1200)
-        } else {
-          setCurrentLength(nextLength)
-          addTimeout(() => {
-            startRound(nextLength)
-          }, 1200)
-        }
-      } else {
-        // Wrong answer
-        if (!retryUsed) {
-          // First failure - allow retry
-          setRetryUsed(true)
-          setPhase('error')
-          setStatusText('错误! 再试一次')
-          addTimeout(() => {
-            clearAllTimeouts()
-            startShowingSequence(sequence)
-          }, 1200)
-        } else {
-          // Second failure - game over
+    const isCorrectSoFar = newInput[stepIndex] === expected[stepIndex]
+
+    // 一个试次 = 复现一条路径，直到点完或中途出错
+    if (newInput.length < expected.length && isCorrectSoFar) return
+
+    onTrial(respondedTrial(
+      sequence.join('-'),
+      inputStartedAt.current,
+      newInput.join('-'),
+      isCorrectSoFar,
+      input,
+    ))
+
+    const newCorrect = isCorrectSoFar ? correctTrials + 1 : correctTrials
+    const newLongest = isCorrectSoFar ? Math.max(longestCorrect, sequence.length) : longestCorrect
+    setCorrectTrials(newCorrect)
+    setLongestCorrect(newLongest)
+    const metrics = corsi ? corsiMetrics(newLongest, newCorrect) : {}
+
+    // 自适应：每条路径作答完即按阶梯调整长度，不设重试
+    if (staircase) {
+      staircase.record(isCorrectSoFar)
+      setPhase(isCorrectSoFar ? 'success' : 'error')
+      setStatusText(isCorrectSoFar ? '正确!' : '错误!')
+      addTimeout(() => {
+        if (staircase.done()) {
           setPhase('gameover')
-          setStatusText('游戏结束')
-          addTimeout(() => {
-            onComplete(score)
-          }, 800)
+          setStatusText('测试结束')
+          onComplete(staircase.threshold(), metrics)
+          return
         }
+        setCurrentLength(staircase.level())
+        startRound(staircase.level())
+      }, 1200)
+      return
+    }
+
+    // 经典 Corsi：每个长度固定两次试次，两次都错才结束
+    if (corsi) {
+      const newScore = isCorrectSoFar ? score + sequence.length * CORSI_POINTS_PER_BLOCK : score
+      const failsAtLength = trialAtLength === 0 ? (isCorrectSoFar ? 0 : 1) : lengthFails + (isCorrectSoFar ? 0 : 1)
+      setScore(newScore)
+      setLengthFails(failsAtLength)
+      setPhase(isCorrectSoFar ? 'success' : 'error')
+      setStatusText(isCorrectSoFar ? '正确!' : '错误!')
+
+      const nextLength = currentLength + 1
+      if (trialAtLength === 1 && (failsAtLength === CORSI_TRIALS_PER_LENGTH || nextLength > lengthCap)) {
+        addTimeout(() => {
+          setPhase('gameover')
+          setStatusText('测试结束')
+          onComplete(newScore, metrics)
+        }, 1200)
+      } else if (trialAtLength === 0) {
+        addTimeout(() => startRound(currentLength, 1), 1200)
+      } else {
+        setCurrentLength(nextLength)
+        addTimeout(() => startRound(nextLength, 0), 1200)
       }
-    } else if (!isCorrectSoFar) {
-      // Wrong cell mid-sequence - evaluate immediately
-      if (!retryUsed) {
-        setRetryUsed(true)
-        setPhase('error')
-        setStatusText('错误! 再试一次')
+      return
+    }
+
+    if (isCorrectSoFar) {
+      const earned = sequence.length * GRID_POINTS_PER_BLOCK
+      const newScore = score + earned
+      setScore(newScore)
+      setPhase('success')
+      setStatusText('正确! 下一关')
+
+      const nextLength = currentLength + 1
+      if (nextLength > lengthCap) {
+        // Game complete - reached max
         addTimeout(() => {
-          clearAllTimeouts()
-          startShowingSequence(sequence)
+          setPhase('gameover')
+          onComplete(newScore, metrics)
         }, 1200)
       } else {
-        setPhase('gameover')
-        setStatusText('游戏结束')
+        setCurrentLength(nextLength)
         addTimeout(() => {
-          onComplete(score)
-        }, 800)
+          startRound(nextLength)
+        }, 1200)
       }
+    } else if (!retryUsed) {
+      // First failure - allow retry
+      setRetryUsed(true)
+      setPhase('error')
+      setStatusText('错误! 再试一次')
+      addTimeout(() => {
+        clearAllTimeouts()
+        startShowingSequence(sequence)
+      }, 1200)
+    } else {
+      // Second failure - game over
+      setPhase('gameover')
+      setStatusText('游戏结束')
+      addTimeout(() => {
+        onComplete(score, metrics)
+      }, 800)
     }
   }, [
-    playerInput, sequence, score, currentLength, maxLength, retryUsed,
-    onComplete, addTimeout, clearAllTimeouts, startShowingSequence, startRound,
+    playerInput, sequence, expected, score, currentLength, lengthCap, retryUsed, staircase, corsi,
+    correctTrials, longestCorrect, trialAtLength, lengthFails,
+    onComplete, onTrial, addTimeout, clearAllTimeouts, startShowingSequence, startRound,
   ])
 
+  // 键盘：方向键移动光标，回车或空格点选；Corsi 布局按积木的实际位置移动
+  const positions = useMemo(
+    () => (corsi ? CORSI_BLOCKS : gridPositions(totalCells, gridSize)),
+    [corsi, totalCells, gridSize],
+  )
+  const cursor = useGridCursor(clock, positions, (index) => handleCellClick(index, 'keyboard'), phase === 'input')
+
   const getCellClass = (cellIndex: number): string => {
     const classes = ['path-cell']
 
+    if (phase === 'input' && cursor === cellIndex) {
+      classes.push('kb-cursor')
+    }
+
     if (phase === 'showing' && highlightIndex >= 0 && sequence[highlightIndex] === cellIndex) {
       classes.push('highlight')
     }
@@ -218,7 +341,7 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
     }
     if (phase === 'error' && playerInput.includes(cellIndex)) {
       const inputIdx = playerInput.indexOf(cellIndex)
-      if (inputIdx < sequence.length && sequence[inputIdx] !== cellIndex) {
+      if (inputIdx < expected.length && expected[inputIdx] !== cellIndex) {
         classes.push('error-reveal')
       }
     }
@@ -229,10 +352,17 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
   return (
     <div className="game-area">
       <div className="game-stats">
-        <div className="game-stat">
-          <div className="game-stat-value">{score}</div>
-          <div className="game-stat-label">得分</div>
-        </div>
+        {staircase ? (
+          <div className="game-stat">
+            <div className="game-stat-value">{staircase.reversals().length}</div>
+            <div className="game-stat-label">反转次数</div>
+          </div>
+        ) : (
+          <div className="game-stat">
+            <div className="game-stat-value">{score}</div>
+            <div className="game-stat-label">得分</div>
+          </div>
+        )}
         <div className="game-stat">
           <div className="game-stat-value">{currentLength}</div>
           <div className="game-stat-label">序列长度</div>
@@ -241,21 +371,133 @@ export default function PathMemory({ difficulty, onComplete }: Props) {
 
       <div className="path-status">{statusText}</div>
 
-      <div className="path-level">当前序列: {currentLength} 格</div>
-
-      <div
-        className="path-grid"
-        style={{ gridTemplateColumns: `repeat(${gridSize}, 1fr)` }}
-      >
-        {Array.from({ length: totalCells }, (_, index) => (
-          <button
-            key={index}
-            className={getCellClass(index)}
-            onClick={() => handleCellClick(index)}
-            disabled={phase !== 'input'}
-          />
-        ))}
+      <div className="path-level">
+        当前序列: {currentLength} 格
+        {corsi && !staircase && ` · 第 ${trialAtLength + 1}/${CORSI_TRIALS_PER_LENGTH} 次`}
       </div>
+
+      {corsi ? (
+        <div className="corsi-board">
+          {CORSI_BLOCKS.map((block, index) => (
+            <button
+              key={index}
+              className={`${getCellClass(index)} corsi-block`}
+              style={{ left: `${block.x}%`, top: `${block.y}%` }}
+              onClick={() => handleCellClick(index, 'pointer')}
+              disabled={phase !== 'input'}
+            />
+          ))}
+        </div>
+      ) : (
+        <div
+          className="path-grid"
+          style={{ gridTemplateColumns: `repeat(${gridSize}, 1fr)` }}
+        >
+          {Array.from({ length: totalCells }, (_, index) => (
+            <button
+              key={index}
+              className={getCellClass(index)}
+              onClick={() => handleCellClick(index, 'pointer')}
+              disabled={phase !== 'input'}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="key-hint">键盘：方向键移动光标，回车或空格点选</div>
     </div>
   )
 }
+
+/** 满分为每个长度都答对到最长路径；Corsi 困难难度最长 9 格 */
+function maxScore(difficulty: FixedDifficulty, options: GameOptions): number {
+  const { startLength } = SETTINGS[difficulty]
+  const corsi = options.layout === 'corsi'
+  const lengthCap = lengthCapOf(difficulty, options)
+  const perBlock = corsi ? CORSI_POINTS_PER_BLOCK * CORSI_TRIALS_PER_LENGTH : GRID_POINTS_PER_BLOCK
+  let total = 0
+  for (let length = startLength; length <= lengthCap; length++) total += length * perBlock
+  return total
+}
+
+export const definition = defineGame({
+  id: 'pathMemory',
+  name: '路径记忆',
+  icon: '🗺️',
+  color: '#F39C12',
+  domain: '视空间',
+  description: '记忆并复现亮起路径',
+  howToPlay: '观察格子依次亮起的顺序，然后按相同顺序点击格子复现路径（倒序模式则从最后一个点回第一个）。每轮成功后路径会更长。经典 Corsi 布局下每个长度做两次，两次都错才结束。',
+  prototype: 'Corsi Block Task',
+  component: PathMemory,
+  maxScore,
+  perfectScore: maxScore,
+  options: [
+    {
+      id: 'layout',
+      label: '布局',
+      choices: [
+        { value: 'grid', label: '方格' },
+        { value: 'corsi', label: '经典 Corsi' },
+      ],
+    },
+    {
+      id: 'recall',
+      label: '作答',
+      choices: [
+        { value: 'forward', label: '顺序' },
+        { value: 'backward', label: '倒序' },
+      ],
+    },
+  ],
+  metrics: { corsiSpan: 'Corsi 广度', corsiTotal: 'Corsi 总分' },
+  adaptive: {
+    parameter: '路径长度',
+    // 阶梯上限与游戏内一致，Corsi 布局为 9 格
+    maxLevel: (options) => lengthCapOf('adaptive', options),
+    describe: (level) => `${level} 格`,
+  },
+  intro: {
+    title: '视空间能力',
+    content:
+      '视空间能力帮助我们感知空间关系、记忆位置和导航方向。空间记忆功能的下降可能是认知障碍的早期信号。路径记忆训练基于经典的 Corsi 积木测验，能有效锻炼空间工作记忆。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '散步时有意识地观察环境',
+      content:
+        '在散步时注意观察周围建筑、标志和路线，是锻炼视空间能力的日常方法。尝试回忆走过的路线或描述环境布局。',
+    },
+    {
+      id: 2,
+      title: '拼图和积木游戏',
+      content:
+        '拼图、搭积木、折纸等活动需要分析空间关系和心理旋转，能有效锻炼视空间能力。适合各年龄段作为认知训练工具。',
+    },
+    {
+      id: 3,
+      title: '空间导航能力的变化',
+      content:
+        '迷路或找不到停车位可能是视空间功能下降的早期信号。如果发现在熟悉环境中频繁迷失方向，建议进行专业认知评估。',
+    },
+    {
+      id: 4,
+      title: '绘画和手工艺',
+      content:
+        '绘画、书法、编织等需要精细空间协调的活动，对维持视空间功能很有帮助。不需要画得好，享受过程本身就是一种训练。',
+    },
+    {
+      id: 5,
+      title: '太极拳训练空间感',
+      content:
+        '太极拳要求身体在空间中的精确控制和对周围环境的持续感知，研究证实太极拳能改善老年人的空间认知功能和平衡能力。',
+    },
+    {
+      id: 6,
+      title: '保持良好视力',
+      content:
+        '视力问题会直接影响视空间认知表现。定期进行眼科检查，及时矫正视力，是保护视空间功能的基础。',
+    },
+  ],
+})
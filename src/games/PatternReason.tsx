@@ -1,15 +1,22 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { FixedDifficulty, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock } from '../utils/clock'
+import { optionIndexFromKey, useKeyboard } from '../utils/keyboard'
+import { ATTRIBUTE_LABELS, describeRules, explainRules, generateMatrix, MatrixItem, summarizeRules } from '../utils/matrix'
+import { MAX_ITEM_DIFFICULTY, PATTERN_ITEMS, PatternItem } from '../utils/patternBank'
+import MatrixPanel from '../components/MatrixPanel'
+import { defineGame } from './registry'
 
 interface Props {
   difficulty: 'easy' | 'normal' | 'hard'
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
   onComplete: (score: number) => void
-}
-
-interface PatternQuestion {
-  sequence: string[]
-  options: string[]
-  correctIndex: number
-  difficulty: 'easy' | 'normal' | 'hard'
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 const DIFFICULTY_SETTINGS = {
@@ -21,348 +28,94 @@ const DIFFICULTY_SETTINGS = {
 const SPEED_BONUS = 10
 const SPEED_THRESHOLD_MS = 8000
 
-// ── Easy Questions (12) ──────────────────────────────────────────────
+/** 题型：程序生成的 3×3 矩阵，或固定题库中的图形序列 */
+type ItemKind = 'matrix' | 'sequence'
 
-const EASY_QUESTIONS: PatternQuestion[] = [
-  // Color sequence: alternating red/blue
-  {
-    sequence: ['🔴', '🔵', '🔴', '🔵', '🔴'],
-    options: ['🔵', '🔴', '🟢', '🟡'],
-    correctIndex: 0,
-    difficulty: 'easy',
-  },
-  // Shape sequence: repeating cycle
-  {
-    sequence: ['■', '▲', '●', '■', '▲'],
-    options: ['■', '▲', '●', '◆'],
-    correctIndex: 2,
-    difficulty: 'easy',
-  },
-  // Rotation sequence
-  {
-    sequence: ['▶', '▲', '◀', '▼'],
-    options: ['▲', '▶', '◀', '▼'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Number pattern: increasing dots
-  {
-    sequence: ['●', '●●', '●●●'],
-    options: ['●●', '●●●●', '●●●', '●'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Color sequence: three-color cycle
-  {
-    sequence: ['🟢', '🟡', '🔴', '🟢', '🟡'],
-    options: ['🟢', '🟡', '🔴', '🔵'],
-    correctIndex: 2,
-    difficulty: 'easy',
-  },
-  // Same shape repeating
-  {
-    sequence: ['◆', '◆', '◆', '◆'],
-    options: ['■', '▲', '●', '◆'],
-    correctIndex: 3,
-    difficulty: 'easy',
-  },
-  // Simple alternating shapes
-  {
-    sequence: ['★', '☆', '★', '☆', '★'],
-    options: ['★', '☆', '◇', '○'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Increasing count
-  {
-    sequence: ['★', '★★', '★★★', '★★★★'],
-    options: ['★★★', '★★★★★', '★★', '★'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Color pair repetition
-  {
-    sequence: ['🔴', '🔴', '🔵', '🔵', '🔴', '🔴'],
-    options: ['🔴', '🔵', '🟢', '🟡'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Simple arrow rotation
-  {
-    sequence: ['→', '↓', '←', '↑'],
-    options: ['→', '↓', '←', '↑'],
-    correctIndex: 0,
-    difficulty: 'easy',
-  },
-  // Shape cycle ABAB
-  {
-    sequence: ['◇', '○', '◇', '○'],
-    options: ['○', '◇', '□', '△'],
-    correctIndex: 1,
-    difficulty: 'easy',
-  },
-  // Single color growing
-  {
-    sequence: ['🟡', '🟡🟡', '🟡🟡🟡'],
-    options: ['🟡🟡🟡🟡', '🟡🟡', '🟡', '🟡🟡🟡'],
-    correctIndex: 0,
-    difficulty: 'easy',
-  },
-]
+const ITEM_KINDS: Record<ItemKind, string> = {
+  matrix: '矩阵',
+  sequence: '序列',
+}
 
-// ── Normal Questions (14) ────────────────────────────────────────────
+function isItemKind(value: string | undefined): value is ItemKind {
+  return value !== undefined && value in ITEM_KINDS
+}
 
-const NORMAL_QUESTIONS: PatternQuestion[] = [
-  // Two-attribute: shape changes while color stays
-  {
-    sequence: ['🔴■', '🔴▲', '🔴●', '🔴■', '🔴▲'],
-    options: ['🔴●', '🔵●', '🔴■', '🔵▲'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Alternating two patterns interleaved
-  {
-    sequence: ['■', '○', '■', '○', '■'],
-    options: ['■', '○', '△', '◇'],
-    correctIndex: 1,
-    difficulty: 'normal',
-  },
-  // Color and shape both alternate
-  {
-    sequence: ['🔴▲', '🔵■', '🔴▲', '🔵■'],
-    options: ['🔴▲', '🔵▲', '🔴■', '🔵■'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Mirror pattern
-  {
-    sequence: ['▲', '■', '●', '■'],
-    options: ['▲', '●', '■', '◆'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Increasing then decreasing count
-  {
-    sequence: ['●', '●●', '●●●', '●●'],
-    options: ['●', '●●', '●●●', '●●●●'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Double rotation sequence
-  {
-    sequence: ['↗', '↘', '↙', '↖'],
-    options: ['↗', '↘', '↙', '↖'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Color gradient sequence
-  {
-    sequence: ['⬜', '🟨', '🟧', '🟥'],
-    options: ['🟫', '⬛', '🟦', '🟪'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Pair pattern with shift
-  {
-    sequence: ['🔵🔴', '🔴🟢', '🟢🟡'],
-    options: ['🟡🔵', '🔵🟢', '🟡🔴', '🔴🔵'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Shape accumulation
-  {
-    sequence: ['▲', '▲■', '▲■●'],
-    options: ['▲■●◆', '■●◆', '▲■', '●◆'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Alternating with size indicator
-  {
-    sequence: ['小●', '大●', '小●', '大●'],
-    options: ['小●', '大●', '中●', '小■'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // ABA pattern
-  {
-    sequence: ['🟢', '🔴', '🟢', '🔵', '🟢', '🟡', '🟢'],
-    options: ['🔴', '🟣', '🟢', '🟡'],
-    correctIndex: 2,
-    difficulty: 'normal',
-  },
-  // Rotation with double step
-  {
-    sequence: ['▶', '◀', '▶', '◀'],
-    options: ['▲', '▼', '▶', '◀'],
-    correctIndex: 2,
-    difficulty: 'normal',
-  },
-  // Two streams interleaved
-  {
-    sequence: ['🔴', '■', '🔵', '▲', '🟢'],
-    options: ['●', '◆', '■', '▲'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-  // Symmetric pattern
-  {
-    sequence: ['▲', '●', '■', '●'],
-    options: ['▲', '■', '●', '◆'],
-    correctIndex: 0,
-    difficulty: 'normal',
-  },
-]
+/** 矩阵题的题目难度即变化规则的条数；选项越多，越难靠排除法猜中 */
+const MATRIX_SETTINGS = {
+  easy:   { ruleCount: 1, optionCount: 4 },
+  normal: { ruleCount: 2, optionCount: 6 },
+  hard:   { ruleCount: 3, optionCount: 8 },
+} as const
 
-// ── Hard Questions (17) ──────────────────────────────────────────────
+/** 矩阵题要比对九格，速度奖励的时限放宽 */
+const MATRIX_SPEED_THRESHOLD_MS = 15000
 
-const HARD_QUESTIONS: PatternQuestion[] = [
-  // Three-attribute change: color + shape + size cycle
-  {
-    sequence: ['小🔴▲', '中🔵■', '大🟢●', '小🔴▲'],
-    options: ['中🔵■', '大🟢●', '小🔵▲', '中🔴●'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Nested pattern: outer repeats, inner shifts
-  {
-    sequence: ['[▲●]', '[●■]', '[■▲]'],
-    options: ['[▲●]', '[●▲]', '[■●]', '[▲■]'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Fibonacci-like count
-  {
-    sequence: ['●', '●', '●●', '●●●', '●●●●●'],
-    options: ['●●●●●●●●', '●●●●●●', '●●●●', '●●●●●●●'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Color and shape independently cycle at different rates
-  {
-    sequence: ['🔴▲', '🔵■', '🟢▲', '🔴■', '🔵▲'],
-    options: ['🟢■', '🔴▲', '🟢▲', '🔵■'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Double rotation: arrow + color
-  {
-    sequence: ['🔴→', '🔵↓', '🟢←', '🟡↑'],
-    options: ['🔴→', '🔵↓', '🟢←', '🟡↑'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Three-element cycle with reversal
-  {
-    sequence: ['▲■●', '●■▲', '▲■●'],
-    options: ['●■▲', '▲●■', '■▲●', '●▲■'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Progressive addition with shift
-  {
-    sequence: ['A', 'AB', 'ABC', 'ABCD'],
-    options: ['ABCDE', 'ABCD', 'BCDE', 'ABCDEF'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Color triple cycle + shape double cycle
-  {
-    sequence: ['🔴●', '🔵■', '🟢●', '🔴■', '🔵●', '🟢■'],
-    options: ['🔴●', '🔵■', '🟢●', '🔴■'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Additive pattern: each step adds one more
-  {
-    sequence: ['♠', '♠♥', '♠♥♦', '♠♥♦♣'],
-    options: ['♠♥♦♣♤', '♠♥♦', '♥♦♣', '♠♥♦♣♠'],
-    correctIndex: 3,
-    difficulty: 'hard',
-  },
-  // Mirror + rotation
-  {
-    sequence: ['◢', '◣', '◤', '◥'],
-    options: ['◢', '◣', '◤', '◥'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Three shapes with position rotation
-  {
-    sequence: ['▲■●', '●▲■', '■●▲'],
-    options: ['▲■●', '●■▲', '■▲●', '▲●■'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Emoji sequence with two changing dimensions
-  {
-    sequence: ['🔴🔴', '🔵🔵🔵', '🟢🟢🟢🟢', '🟡🟡🟡🟡🟡'],
-    options: ['🟣🟣🟣🟣🟣🟣', '🔴🔴🔴🔴🔴🔴', '🟠🟠🟠🟠🟠🟠', '🟤🟤🟤🟤🟤'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Complex alternation: odd positions one pattern, even positions another
-  {
-    sequence: ['★', '🔴', '☆', '🔵', '★', '🟢'],
-    options: ['☆', '★', '🔴', '🟡'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Subtraction pattern
-  {
-    sequence: ['●●●●●', '●●●●', '●●●', '●●'],
-    options: ['●', '●●', '●●●', ''],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Encoded pattern: numbers represent positions
-  {
-    sequence: ['①②③', '②③④', '③④⑤'],
-    options: ['④⑤⑥', '⑤⑥⑦', '③④⑤', '①②③'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Multi-symbol with cycle
-  {
-    sequence: ['♠♥', '♥♦', '♦♣', '♣♠'],
-    options: ['♠♥', '♥♣', '♦♠', '♣♦'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-  // Three independent cycles
-  {
-    sequence: ['大🔴▲', '小🔵■', '大🟢●', '小🔴▲'],
-    options: ['大🔵■', '小🟢●', '大🔴●', '小🔵▲'],
-    correctIndex: 0,
-    difficulty: 'hard',
-  },
-]
+type Question =
+  | { kind: 'sequence'; item: PatternItem }
+  | { kind: 'matrix'; item: MatrixItem }
+
+/** 各难度档可选的序列题难度参数上限，高难度档包含较低档的题目 */
+const SEQUENCE_MAX_DIFFICULTY = {
+  easy: 2,
+  normal: 3,
+  hard: MAX_ITEM_DIFFICULTY,
+} as const
 
-const ALL_QUESTIONS: Record<'easy' | 'normal' | 'hard', PatternQuestion[]> = {
-  easy: EASY_QUESTIONS,
-  normal: [...EASY_QUESTIONS, ...NORMAL_QUESTIONS],
-  hard: [...EASY_QUESTIONS, ...NORMAL_QUESTIONS, ...HARD_QUESTIONS],
+/** 题库按编写习惯把答案放在固定位置，出题时打乱选项并重新定位正确答案 */
+function shuffleOptions(item: PatternItem, rng: Rng): PatternItem {
+  const order = rng.shuffle(item.options.map((_, index) => index))
+  return { ...item, options: order.map(index => item.options[index]), correctIndex: order.indexOf(item.correctIndex) }
 }
 
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array]
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[arr[i], arr[j]] = [arr[j], arr[i]]
+function selectQuestions(difficulty: 'easy' | 'normal' | 'hard', kind: ItemKind, rng: Rng): Question[] {
+  const settings = DIFFICULTY_SETTINGS[difficulty]
+  if (kind === 'matrix') {
+    const { ruleCount, optionCount } = MATRIX_SETTINGS[difficulty]
+    return Array.from({ length: settings.questionCount }, () => ({
+      kind: 'matrix',
+      item: generateMatrix(ruleCount, optionCount, rng),
+    }))
   }
-  return arr
+  const pool = PATTERN_ITEMS.filter(item => item.difficulty <= SEQUENCE_MAX_DIFFICULTY[difficulty])
+  const shuffled = rng.shuffle(pool)
+  return shuffled.slice(0, settings.questionCount).map(item => ({ kind: 'sequence', item: shuffleOptions(item, rng) }))
 }
 
-function selectQuestions(difficulty: 'easy' | 'normal' | 'hard'): PatternQuestion[] {
-  const settings = DIFFICULTY_SETTINGS[difficulty]
-  const pool = ALL_QUESTIONS[difficulty]
-  const shuffled = shuffle(pool)
-  return shuffled.slice(0, settings.questionCount)
+function optionCount(question: Question): number {
+  return question.item.options.length
+}
+
+function correctIndex(question: Question): number {
+  return question.kind === 'matrix' ? question.item.answerIndex : question.item.correctIndex
+}
+
+/** 试次记录：序列题记图形本身；矩阵题记变化的规则，作答记所选干扰项违反的属性 */
+function trialLabels(question: Question, optionIndex: number): { stimulus: string; response: string } {
+  if (question.kind === 'sequence') {
+    return { stimulus: question.item.sequence.join(' '), response: question.item.options[optionIndex] }
+  }
+  const breaks = question.item.options[optionIndex].breaks
+  return { stimulus: `matrix(${describeRules(question.item.rules)})`, response: breaks ? `breaks:${breaks}` : 'answer' }
 }
 
-export default function PatternReason({ difficulty, onComplete }: Props) {
+/** 作答后展示的规律说明；矩阵题答错时再指出所选图形哪一项不符合规律 */
+function explanation(question: Question, optionIndex: number | null): { title: string; text: string; hint: string | null } {
+  if (question.kind === 'sequence') {
+    return { title: '规律', text: question.item.explanation, hint: null }
+  }
+  const breaks = optionIndex === null ? null : question.item.options[optionIndex].breaks
+  return {
+    title: `规律：${summarizeRules(question.item.rules)}`,
+    text: explainRules(question.item.rules),
+    hint: breaks ? `你选的图形${ATTRIBUTE_LABELS[breaks]}不对。` : null,
+  }
+}
+
+export default function PatternReason({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = DIFFICULTY_SETTINGS[difficulty]
+  const kind: ItemKind = isItemKind(options.items) ? options.items : 'matrix'
 
-  const questions = useMemo(() => selectQuestions(difficulty), [difficulty])
+  const questions = useMemo(() => selectQuestions(difficulty, kind, rng), [difficulty, kind, rng])
 
   const [currentQuestion, setCurrentQuestion] = useState(0)
   const [score, setScore] = useState(0)
@@ -370,36 +123,37 @@ export default function PatternReason({ difficulty, onComplete }: Props) {
   const [selectedOption, setSelectedOption] = useState<number | null>(null)
 
   const questionStartTime = useRef<number>(Date.now())
-  const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const isProcessing = useRef(false)
+  const isFinished = useRef(false)
   const scoreRef = useRef(0)
 
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress({ round: currentQuestion, total: questions.length, score })
+  }, [currentQuestion, questions.length, score, onProgress])
+
   // Reset timer when question changes
   useEffect(() => {
     questionStartTime.current = Date.now()
   }, [currentQuestion])
 
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current)
-    }
-  }, [])
-
-  const handleOptionClick = useCallback((optionIndex: number) => {
+  const handleOptionClick = useCallback((optionIndex: number, input: InputModality) => {
     if (isProcessing.current) return
     if (feedback !== null) return
     isProcessing.current = true
 
     const question = questions[currentQuestion]
-    const isCorrect = optionIndex === question.correctIndex
-    const answerTime = Date.now() - questionStartTime.current
+    const isCorrect = optionIndex === correctIndex(question)
+    const now = Date.now()
+    const answerTime = now - questionStartTime.current - clock.pausedBetween(questionStartTime.current, now)
+    const { stimulus, response } = trialLabels(question, optionIndex)
+    onTrial(respondedTrial(stimulus, questionStartTime.current, response, isCorrect, input))
 
     setSelectedOption(optionIndex)
 
     if (isCorrect) {
       let points = settings.pointsPerCorrect
-      if (answerTime <= SPEED_THRESHOLD_MS) {
+      if (answerTime <= (question.kind === 'matrix' ? MATRIX_SPEED_THRESHOLD_MS : SPEED_THRESHOLD_MS)) {
         points += SPEED_BONUS
       }
       setScore(prev => {
@@ -411,23 +165,44 @@ export default function PatternReason({ difficulty, onComplete }: Props) {
     } else {
       setFeedback('wrong')
     }
+  }, [feedback, questions, currentQuestion, settings.pointsPerCorrect, onTrial, clock])
 
-    feedbackTimerRef.current = setTimeout(() => {
-      const nextQuestion = currentQuestion + 1
-      if (nextQuestion >= questions.length) {
-        onComplete(scoreRef.current)
-      } else {
-        setCurrentQuestion(nextQuestion)
-        setFeedback(null)
-        setSelectedOption(null)
-        isProcessing.current = false
-      }
-    }, 800)
-  }, [feedback, questions, currentQuestion, settings.pointsPerCorrect, onComplete])
+  // 看完规律说明后由玩家自己进入下一题，不限时
+  const handleNext = useCallback(() => {
+    if (feedback === null || isFinished.current) return
+    const nextQuestion = currentQuestion + 1
+    if (nextQuestion >= questions.length) {
+      isFinished.current = true
+      onComplete(scoreRef.current)
+    } else {
+      setCurrentQuestion(nextQuestion)
+      setFeedback(null)
+      setSelectedOption(null)
+      isProcessing.current = false
+    }
+  }, [feedback, currentQuestion, questions.length, onComplete])
+
+  // 键盘：数字键选择对应位置的选项，显示说明时回车或空格进入下一题
+  useKeyboard(clock, (key) => {
+    if (feedback !== null) {
+      if (key !== 'Enter' && key !== ' ') return false
+      handleNext()
+      return true
+    }
+    const question = questions[currentQuestion]
+    const index = question ? optionIndexFromKey(key, optionCount(question)) : null
+    if (index === null) return false
+    handleOptionClick(index, 'keyboard')
+    return true
+  })
 
   const question = questions[currentQuestion]
   if (!question) return null
 
+  const answerIndex = correctIndex(question)
+  const isLast = currentQuestion + 1 >= questions.length
+  const explained = feedback !== null ? explanation(question, selectedOption) : null
+
   return (
     <div className="game-area">
       <div className="game-stats">
@@ -443,20 +218,31 @@ export default function PatternReason({ difficulty, onComplete }: Props) {
         </div>
       </div>
 
-      <div className="pattern-sequence">
-        {question.sequence.map((item, index) => (
-          <div
-            key={index}
-            className="pattern-cell"
-            style={{
-              fontSize: item.length > 4 ? '0.7em' : undefined,
-            }}
-          >
-            {item}
-          </div>
-        ))}
-        <div className="pattern-cell pattern-question-mark">?</div>
-      </div>
+      {question.kind === 'matrix' ? (
+        <div className="matrix-grid">
+          {question.item.panels.map((panel, index) => (
+            <div key={index} className="matrix-cell">
+              <MatrixPanel panel={panel} />
+            </div>
+          ))}
+          <div className="matrix-cell pattern-question-mark">?</div>
+        </div>
+      ) : (
+        <div className="pattern-sequence">
+          {question.item.sequence.map((item, index) => (
+            <div
+              key={index}
+              className="pattern-cell"
+              style={{
+                fontSize: item.length > 4 ? '0.7em' : undefined,
+              }}
+            >
+              {item}
+            </div>
+          ))}
+          <div className="pattern-cell pattern-question-mark">?</div>
+        </div>
+      )}
 
       {feedback && (
         <div
@@ -472,57 +258,164 @@ export default function PatternReason({ difficulty, onComplete }: Props) {
         </div>
       )}
 
-      <div
-        className="pattern-options"
-        style={{
-          display: 'grid',
-          gridTemplateColumns: '1fr 1fr',
-          gap: 12,
-          maxWidth: 400,
-          margin: '0 auto',
-        }}
-      >
-        {question.options.map((option, index) => {
-          let optionStyle: React.CSSProperties = {
-            padding: '16px 12px',
-            fontSize: option.length > 4 ? '1rem' : '1.4rem',
-            border: '2px solid var(--border, #ccc)',
-            borderRadius: 8,
-            cursor: feedback !== null ? 'default' : 'pointer',
-            backgroundColor: 'var(--surface, #fff)',
-            transition: 'all 0.15s ease',
-            userSelect: 'none',
-          }
-
-          if (feedback !== null) {
-            if (index === question.correctIndex) {
-              optionStyle = {
-                ...optionStyle,
-                borderColor: 'var(--success, #2ecc71)',
-                backgroundColor: 'rgba(46, 204, 113, 0.15)',
-              }
-            } else if (index === selectedOption && feedback === 'wrong') {
-              optionStyle = {
-                ...optionStyle,
-                borderColor: 'var(--error, #e74c3c)',
-                backgroundColor: 'rgba(231, 76, 60, 0.15)',
+      {explained && (
+        <div className="pattern-explanation">
+          <div className="pattern-explanation-title">{explained.title}</div>
+          <p>{explained.text}</p>
+          {explained.hint && <p className="pattern-explanation-hint">{explained.hint}</p>}
+          <button className="btn btn-primary" onClick={handleNext}>
+            {isLast ? '查看成绩' : '下一题'}
+          </button>
+        </div>
+      )}
+
+      {question.kind === 'matrix' ? (
+        <div className={`matrix-options matrix-options-${optionCount(question)}`}>
+          {question.item.options.map((option, index) => {
+            let className = 'pattern-option matrix-option'
+            if (feedback !== null) {
+              if (index === answerIndex) className += ' correct'
+              else if (index === selectedOption && feedback === 'wrong') className += ' wrong'
+            }
+            return (
+              <button
+                key={index}
+                className={className}
+                disabled={feedback !== null}
+                onClick={() => handleOptionClick(index, 'pointer')}
+              >
+                <kbd className="key-badge key-badge-corner">{index + 1}</kbd>
+                <MatrixPanel panel={option.panel} />
+              </button>
+            )
+          })}
+        </div>
+      ) : (
+        <div
+          className="pattern-options"
+          style={{
+            display: 'grid',
+            gridTemplateColumns: '1fr 1fr',
+            gap: 12,
+            maxWidth: 400,
+            margin: '0 auto',
+          }}
+        >
+          {question.item.options.map((option, index) => {
+            let optionStyle: React.CSSProperties = {
+              padding: '16px 12px',
+              fontSize: option.length > 4 ? '1rem' : '1.4rem',
+              border: '2px solid var(--border, #ccc)',
+              borderRadius: 8,
+              cursor: feedback !== null ? 'default' : 'pointer',
+              backgroundColor: 'var(--surface, #fff)',
+              transition: 'all 0.15s ease',
+              userSelect: 'none',
+            }
+
+            if (feedback !== null) {
+              if (index === answerIndex) {
+                optionStyle = {
+                  ...optionStyle,
+                  borderColor: 'var(--success, #2ecc71)',
+                  backgroundColor: 'rgba(46, 204, 113, 0.15)',
+                }
+              } else if (index === selectedOption && feedback === 'wrong') {
+                optionStyle = {
+                  ...optionStyle,
+                  borderColor: 'var(--error, #e74c3c)',
+                  backgroundColor: 'rgba(231, 76, 60, 0.15)',
+                }
               }
             }
-          }
 
-          return (
-            <button
-              key={index}
-              className="pattern-option"
-              disabled={feedback !== null}
-              onClick={() => handleOptionClick(index)}
-              style={optionStyle}
-            >
-              {option}
-            </button>
-          )
-        })}
-      </div>
+            return (
+              <button
+                key={index}
+                className="pattern-option"
+                disabled={feedback !== null}
+                onClick={() => handleOptionClick(index, 'pointer')}
+                style={optionStyle}
+              >
+                <kbd className="key-badge">{index + 1}</kbd>
+                {option}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      <div className="key-hint">键盘：按数字键 1-{optionCount(question)} 选择，回车或空格进入下一题</div>
     </div>
   )
 }
+
+const MAX_SCORE: Record<FixedDifficulty, number> = { easy: 500, normal: 800, hard: 1000 }
+
+export const definition = defineGame({
+  id: 'patternReason',
+  name: '图形推理',
+  icon: '🔷',
+  color: '#2C3E50',
+  domain: '推理判断',
+  description: '找出图形矩阵的规律',
+  howToPlay: '矩阵题：九宫格每一行的图形都按相同的规律变化（形状、数量、大小、颜色或角度），从选项中选出填入右下角空格的图形。序列题：观察图形序列的变化规律，选出下一个图形。每题作答后会讲解规律，看懂后再进入下一题。快速作答有额外加分。',
+  prototype: '类 Raven 矩阵推理',
+  component: PatternReason,
+  // 两种题型题数和每题分值相同，共用一套满分
+  maxScore: (difficulty) => MAX_SCORE[difficulty],
+  perfectScore: (difficulty) => {
+    const { questionCount, pointsPerCorrect } = DIFFICULTY_SETTINGS[difficulty]
+    return questionCount * (pointsPerCorrect + SPEED_BONUS)
+  },
+  options: [
+    {
+      id: 'items',
+      label: '题型',
+      choices: (Object.keys(ITEM_KINDS) as ItemKind[]).map((value) => ({ value, label: ITEM_KINDS[value] })),
+    },
+  ],
+  intro: {
+    title: '推理判断',
+    content:
+      '推理判断能力是流体智力的核心成分，涵盖模式识别、逻辑推理和抽象思维。经典的瑞文推理测验（Raven\'s Progressive Matrices）便是通过图形模式来评估推理能力。研究表明，推理能力的认知训练可以迁移到其他认知领域，产生广泛的认知增益。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '益智谜题锻炼推理力',
+      content:
+        '数独、逻辑谜题、图形推理等益智游戏是锻炼推理能力的优秀工具。它们要求发现规律、测试假设、排除错误——这些正是推理思维的核心成分。每天花15-20分钟做益智题，能有效保持推理敏锐度。',
+    },
+    {
+      id: 2,
+      title: '流体智力与晶体智力',
+      content:
+        '流体智力指解决新问题、识别新模式的能力，从中年开始下降；晶体智力指运用已有知识经验的能力，可持续增长至70岁以上。推理训练主要针对流体智力，而丰富的知识积累也能弥补流体智力的下降。',
+    },
+    {
+      id: 3,
+      title: '创造性活动增强推理',
+      content:
+        '绘画、音乐创作、写作等创造性活动需要发散思维和模式生成，与推理能力共享部分认知资源。研究发现，从事创造性爱好的人在抽象推理测试中表现更好，创造力与推理力相互促进。',
+    },
+    {
+      id: 4,
+      title: '日常生活中的模式识别',
+      content:
+        '模式识别无处不在：天气变化规律、交通流量模式、消费习惯分析——有意识地在日常生活中寻找和分析规律，就是在自然地锻炼推理能力。保持对周围事物的好奇心和观察力非常重要。',
+    },
+    {
+      id: 5,
+      title: '下棋和策略游戏',
+      content:
+        '象棋、围棋等策略游戏需要预测对手行为、评估多种可能性并制定计划，深度训练逻辑推理和前瞻思维。研究表明，长期下棋的人在标准化推理测试中得分显著更高。',
+    },
+    {
+      id: 6,
+      title: '推理能力的老年保持',
+      content:
+        '虽然推理能力会随年龄自然下降，但衰退程度个体差异很大。ACTIVE研究证实，针对推理能力的认知训练效果可持续10年以上。保持终身学习、接触新事物、挑战思维舒适区，是维护推理能力的关键。',
+    },
+  ],
+})
@@ -1,157 +1,345 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { Difficulty, GameMetrics, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { missedTrial, rtSummary } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { createStaircase } from '../utils/staircase'
+import { useKeyboard } from '../utils/keyboard'
+import { eventTime, perfToEpoch, useStimulusOnset, useTimingPrecision } from '../utils/timing'
+import { defineGame } from './registry'
 
 interface Props {
-  difficulty: 'easy' | 'normal' | 'hard'
-  onComplete: (score: number) => void
+  difficulty: Difficulty
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
+  onComplete: (score: number, metrics: GameMetrics) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 const DIFFICULTY_SETTINGS = {
   easy:   { trials: 8,  minDelay: 1500, maxDelay: 3000, trickTrials: false },
   normal: { trials: 12, minDelay: 1000, maxDelay: 4000, trickTrials: false },
   hard:   { trials: 15, minDelay: 500,  maxDelay: 5000, trickTrials: true },
+  // 自适应：trials 为阶梯的试次上限
+  adaptive: { trials: 40, minDelay: 1000, maxDelay: 3000, trickTrials: false },
 } as const
 
-type Phase = 'waiting' | 'ready' | 'signal' | 'result' | 'tooEarly' | 'done'
+/** 自适应：信号只亮有限时间，须在熄灭前点击；等级越高亮得越短 */
+const ADAPTIVE = { startLevel: 5, maxLevel: 17, longestMs: 1000, stepMs: 50 }
 
-function getRandomDelay(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min
+function signalDuration(level: number): number {
+  return ADAPTIVE.longestMs - (level - 1) * ADAPTIVE.stepMs
+}
+
+type Phase = 'waiting' | 'ready' | 'signal' | 'result' | 'tooEarly' | 'missed' | 'withheld'
+
+/** 任务：简单反应、选择反应（左 / 右）、Go/No-Go（绿点红不点） */
+type Task = 'simple' | 'choice' | 'gonogo'
+
+type Side = 'left' | 'right'
+
+/** 单个试次的刺激：简单反应只有 go */
+type Stimulus = 'go' | 'nogo' | Side
+
+/** fastestRt：反应很快的成年人能达到的平均反应时 (ms)，决定满分 */
+const TASKS: Record<Task, { label: string; ready: string; fastestRt: number }> = {
+  simple: { label: '简单反应', ready: '等待绿色...', fastestRt: 200 },
+  choice: { label: '选择反应', ready: '注意左右两侧...', fastestRt: 280 },
+  gonogo: { label: 'Go/No-Go', ready: '绿色点击，红色不点', fastestRt: 260 },
+}
+
+/** 选择反应和 Go/No-Go 的作答时限，超时记为漏按（No-Go 则为成功抑制） */
+const RESPONSE_WINDOW_MS = 1500
+/** Go/No-Go 中 No-Go 试次的比例 */
+const NOGO_RATE = 0.25
+/** 快于此值的作答视为预判，不算正确 */
+const ANTICIPATION_MS = 150
+
+interface TrialResult {
+  stimulus: Stimulus
+  /** 未作答为 null */
+  rt: number | null
+  correct: boolean
+}
+
+function isTask(value: string | undefined): value is Task {
+  return value !== undefined && value in TASKS
+}
+
+function drawStimulus(task: Task, rng: Rng): Stimulus {
+  if (task === 'choice') return rng.chance(0.5) ? 'left' : 'right'
+  if (task === 'gonogo') return rng.chance(NOGO_RATE) ? 'nogo' : 'go'
+  return 'go'
 }
 
 function calculateTrialScore(reactionTime: number): number {
-  if (reactionTime < 150) return 0
+  if (reactionTime < ANTICIPATION_MS) return 0
   return Math.max(0, 800 - reactionTime)
 }
 
-export default function ReactionTest({ difficulty, onComplete }: Props) {
+/** 平均每试次得分；成功抑制的 No-Go 不计入，错误和漏按记 0 分 */
+function averageScore(results: TrialResult[]): number {
+  const scored = results.filter(r => !(r.stimulus === 'nogo' && r.correct))
+  if (scored.length === 0) return 0
+  const total = scored.reduce((sum, r) => sum + (r.correct && r.rt !== null ? calculateTrialScore(r.rt) : 0), 0)
+  return Math.min(800, Math.round(total / scored.length))
+}
+
+/** 信号出现后快于 ANTICIPATION_MS 的作答是猜测而非反应；按了 No-Go 无论快慢都是误按 */
+function isAnticipation(result: TrialResult): boolean {
+  return result.rt !== null && result.rt < ANTICIPATION_MS && result.stimulus !== 'nogo'
+}
+
+/** 反应时指标只用正确作答；预判单独计数，提前按、按错和按了 No-Go 算误按 */
+function reactionMetrics(results: TrialResult[], earlyCount: number): GameMetrics {
+  const { mean, sd, cv } = rtSummary(results.filter(r => r.correct && r.rt !== null).map(r => r.rt!))
+  return {
+    meanRt: mean,
+    rtSd: sd,
+    rtCv: cv,
+    commissionErrors: earlyCount + results.filter(r => r.rt !== null && !r.correct && !isAnticipation(r)).length,
+    anticipations: results.filter(isAnticipation).length,
+    omissionErrors: results.filter(r => r.rt === null && !r.correct).length,
+  }
+}
+
+export default function ReactionTest({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = DIFFICULTY_SETTINGS[difficulty]
   const totalTrials = settings.trials
+  const task: Task = isTask(options.task) ? options.task : 'simple'
 
   const [phase, setPhase] = useState<Phase>('waiting')
   const [currentTrial, setCurrentTrial] = useState(0)
-  const [reactionTimes, setReactionTimes] = useState<number[]>([])
+  const [results, setResults] = useState<TrialResult[]>([])
+  const [stimulus, setStimulus] = useState<Stimulus>('go')
+  // 每次亮起信号加一，用于记录信号真正呈现的时刻
+  const [signalId, setSignalId] = useState(0)
   const [lastReactionTime, setLastReactionTime] = useState<number | null>(null)
-
-  const signalTimeRef = useRef<number>(0)
-  const delayTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const trickTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
-  const advanceTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [lastCorrect, setLastCorrect] = useState(true)
+  const [staircase] = useState(() => difficulty === 'adaptive'
+    ? createStaircase({ start: ADAPTIVE.startLevel, min: 1, max: ADAPTIVE.maxLevel, maxTrials: settings.trials })
+    : null)
+
+  // 信号呈现时刻的墙钟时间，用于试次事件
+  const signalAtRef = useRef<number>(0)
+  const readyAtRef = useRef<number>(0)
+  const delayTimeoutRef = useRef<TimerId | null>(null)
+  const trickTimeoutRef = useRef<TimerId | null>(null)
+  const advanceTimeoutRef = useRef<TimerId | null>(null)
+  const windowTimeoutRef = useRef<TimerId | null>(null)
   const isTrickTrialRef = useRef(false)
+  const stimulusRef = useRef<Stimulus>('go')
+  const resultsRef = useRef<TrialResult[]>([])
+  const earlyCountRef = useRef(0)
+  // 本试次是否已结算，防止超时与点击重复计入
+  const settledRef = useRef(true)
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress(staircase
+      ? { round: staircase.trials(), total: null, score: staircase.threshold() }
+      : { round: results.length, total: totalTrials, score: averageScore(results) })
+  }, [phase, results, totalTrials, staircase, onProgress])
 
   // Clean up all timeouts on unmount
   useEffect(() => {
     return () => {
-      if (delayTimeoutRef.current) clearTimeout(delayTimeoutRef.current)
-      if (trickTimeoutRef.current) clearTimeout(trickTimeoutRef.current)
-      if (advanceTimeoutRef.current) clearTimeout(advanceTimeoutRef.current)
+      if (delayTimeoutRef.current) clock.clearTimeout(delayTimeoutRef.current)
+      if (trickTimeoutRef.current) clock.clearTimeout(trickTimeoutRef.current)
+      if (advanceTimeoutRef.current) clock.clearTimeout(advanceTimeoutRef.current)
+      if (windowTimeoutRef.current) clock.clearTimeout(windowTimeoutRef.current)
     }
+  }, [clock])
+
+  /** 试次事件中的刺激描述，自适应时附带信号持续时间 */
+  const stimulusLabel = useCallback((target: Stimulus) => {
+    const name = task === 'simple' ? (isTrickTrialRef.current ? 'trick' : 'signal') : target
+    return staircase ? `${name}@${signalDuration(staircase.level())}` : name
+  }, [task, staircase])
+
+  const showSignal = useCallback(() => {
+    setPhase('signal')
+    setSignalId(id => id + 1)
+    settledRef.current = false
   }, [])
 
+  /** 信号画到屏幕上之后才开始计时 */
+  const handleSignalOnset = useCallback((onset: number) => {
+    const target = stimulusRef.current
+    signalAtRef.current = perfToEpoch(onset)
+
+    // 自适应时信号只亮有限时间；选择反应和 Go/No-Go 有固定的作答时限
+    const responseWindow = staircase
+      ? signalDuration(staircase.level())
+      : task === 'simple' ? null : RESPONSE_WINDOW_MS
+    if (responseWindow === null) return
+    windowTimeoutRef.current = clock.setTimeout(() => {
+      windowTimeoutRef.current = null
+      const withheld = target === 'nogo'
+      onTrial(missedTrial(stimulusLabel(target), signalAtRef.current, withheld))
+      setPhase(withheld ? 'withheld' : 'missed')
+    }, responseWindow)
+  }, [task, staircase, clock, onTrial, stimulusLabel])
+
+  const onsetRef = useStimulusOnset(phase === 'signal' ? signalId : null, handleSignalOnset)
+  const precisionRef = useTimingPrecision()
+
   const startTrial = useCallback(() => {
     // Clear any lingering timeouts
-    if (delayTimeoutRef.current) clearTimeout(delayTimeoutRef.current)
-    if (trickTimeoutRef.current) clearTimeout(trickTimeoutRef.current)
+    if (delayTimeoutRef.current) clock.clearTimeout(delayTimeoutRef.current)
+    if (trickTimeoutRef.current) clock.clearTimeout(trickTimeoutRef.current)
+    if (windowTimeoutRef.current) clock.clearTimeout(windowTimeoutRef.current)
 
+    const target = drawStimulus(task, rng)
+    stimulusRef.current = target
+    setStimulus(target)
     setPhase('ready')
     setLastReactionTime(null)
     isTrickTrialRef.current = false
+    settledRef.current = true
+    readyAtRef.current = Date.now()
 
-    const delay = getRandomDelay(settings.minDelay, settings.maxDelay)
+    const delay = rng.int(settings.minDelay, settings.maxDelay)
 
     // Determine if this is a trick trial (hard mode only, ~30% chance)
-    const isTrick = settings.trickTrials && Math.random() < 0.3
+    const isTrick = task === 'simple' && settings.trickTrials && rng.chance(0.3)
 
-    delayTimeoutRef.current = setTimeout(() => {
+    delayTimeoutRef.current = clock.setTimeout(() => {
       if (isTrick) {
         // Trick trial: show signal briefly then hide it
         isTrickTrialRef.current = true
-        setPhase('signal')
-        signalTimeRef.current = performance.now()
+        showSignal()
 
-        trickTimeoutRef.current = setTimeout(() => {
+        trickTimeoutRef.current = clock.setTimeout(() => {
           // Hide the signal and go back to ready
           isTrickTrialRef.current = false
+          settledRef.current = true
           setPhase('ready')
 
           // Show the real signal after another short delay
-          const secondDelay = getRandomDelay(800, 2000)
-          delayTimeoutRef.current = setTimeout(() => {
-            setPhase('signal')
-            signalTimeRef.current = performance.now()
-          }, secondDelay)
+          const secondDelay = rng.int(800, 2000)
+          delayTimeoutRef.current = clock.setTimeout(showSignal, secondDelay)
         }, 150) // Signal visible for only 150ms
       } else {
-        setPhase('signal')
-        signalTimeRef.current = performance.now()
+        showSignal()
       }
     }, delay)
-  }, [settings.minDelay, settings.maxDelay, settings.trickTrials])
+  }, [task, settings.minDelay, settings.maxDelay, settings.trickTrials, rng, clock, showSignal])
+
+  const complete = useCallback(() => {
+    const metrics = reactionMetrics(resultsRef.current, earlyCountRef.current)
+    if (precisionRef.current) metrics.timingError = precisionRef.current.errorMs
+    onComplete(staircase ? staircase.threshold() : averageScore(resultsRef.current), metrics)
+  }, [staircase, onComplete, precisionRef])
+
+  /** 结算一个试次，1.5 秒后进入下一试次或结束 */
+  const finishTrial = useCallback((result: TrialResult) => {
+    if (settledRef.current) return
+    settledRef.current = true
+    resultsRef.current = [...resultsRef.current, result]
+    setResults(resultsRef.current)
+
+    // 自适应：No-Go 试次不参与阶梯
+    if (staircase && result.stimulus !== 'nogo') staircase.record(result.correct)
+    const done = staircase ? staircase.done() : resultsRef.current.length >= totalTrials
+    setCurrentTrial(staircase ? staircase.trials() : resultsRef.current.length)
+    advanceTimeoutRef.current = clock.setTimeout(done ? complete : startTrial, 1500)
+  }, [staircase, totalTrials, clock, complete, startTrial])
 
-  // Start the first trial automatically
   useEffect(() => {
-    const timeout = setTimeout(() => {
-      startTrial()
-    }, 1000)
-    return () => clearTimeout(timeout)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [])
+    if (phase === 'missed') finishTrial({ stimulus: stimulusRef.current, rt: null, correct: false })
+    if (phase === 'withheld') finishTrial({ stimulus: 'nogo', rt: null, correct: true })
+  }, [phase, finishTrial])
 
-  const handleCircleClick = useCallback(() => {
-    if (phase === 'waiting') return
-    if (phase === 'done') return
-    if (phase === 'result') return
-    if (phase === 'tooEarly') return
+  // 信号呈现期间被暂停时本试次作废，继续后重新开始
+  useEffect(() => {
+    if (phase !== 'signal') return
+    return clock.subscribe(() => {
+      if (!clock.isPaused()) startTrial()
+    })
+  }, [phase, clock, startTrial])
+
+  // 挂载时开始第一个试次；之后的试次由作答结果推进，不随 startTrial 的更新重新开始
+  const startTrialRef = useRef(startTrial)
+  useEffect(() => {
+    const timeout = clock.setTimeout(() => {
+      startTrialRef.current()
+    }, 1000)
+    return () => clock.clearTimeout(timeout)
+  }, [clock])
 
+  /** side 为选择反应中按下的一侧，其余任务为 null；time 为输入事件发生的时刻 */
+  const handleResponse = useCallback((side: Side | null, input: InputModality, time: number) => {
     if (phase === 'ready') {
       // Clicked too early
-      if (delayTimeoutRef.current) clearTimeout(delayTimeoutRef.current)
-      if (trickTimeoutRef.current) clearTimeout(trickTimeoutRef.current)
+      if (delayTimeoutRef.current) clock.clearTimeout(delayTimeoutRef.current)
+      if (trickTimeoutRef.current) clock.clearTimeout(trickTimeoutRef.current)
+      earlyCountRef.current++
       setPhase('tooEarly')
-
-      advanceTimeoutRef.current = setTimeout(() => {
+      onTrial({
+        stimulus: stimulusLabel(stimulusRef.current),
+        response: 'early',
+        correct: false,
+        latency: null,
+        stimulusAt: readyAtRef.current,
+        responseAt: perfToEpoch(time),
+        input,
+      })
+
+      advanceTimeoutRef.current = clock.setTimeout(() => {
         startTrial()
       }, 1500)
       return
     }
 
-    if (phase === 'signal') {
-      const reactionTime = Math.round(performance.now() - signalTimeRef.current)
-      setLastReactionTime(reactionTime)
-      setPhase('result')
-
-      const newReactionTimes = [...reactionTimes, reactionTime]
-      setReactionTimes(newReactionTimes)
-
-      const nextTrial = currentTrial + 1
-
-      if (nextTrial >= totalTrials) {
-        // Game complete
-        setCurrentTrial(nextTrial)
-        advanceTimeoutRef.current = setTimeout(() => {
-          const totalScore = Math.round(
-            newReactionTimes.reduce((sum, rt) => sum + calculateTrialScore(rt), 0)
-            / newReactionTimes.length
-          )
-          const normalizedScore = Math.min(800, Math.round(totalScore))
-          onComplete(normalizedScore)
-        }, 1500)
-      } else {
-        setCurrentTrial(nextTrial)
-        advanceTimeoutRef.current = setTimeout(() => {
-          startTrial()
-        }, 1500)
-      }
-    }
-  }, [phase, reactionTimes, currentTrial, totalTrials, startTrial, onComplete])
-
-  const getCircleColor = (): string => {
-    switch (phase) {
-      case 'signal':
-        return '#27ae60'
-      case 'tooEarly':
-        return '#e74c3c'
-      default:
-        return '#ccc'
+    if (phase !== 'signal' || settledRef.current) return
+
+    const target = stimulusRef.current
+    // 信号还没画到屏幕上就按下，反应时记 0，按预判处理
+    const onset = onsetRef.current ?? time
+    const reactionTime = Math.round(time - onset)
+    if (trickTimeoutRef.current) clock.clearTimeout(trickTimeoutRef.current)
+    if (windowTimeoutRef.current) clock.clearTimeout(windowTimeoutRef.current)
+    windowTimeoutRef.current = null
+
+    const correct = reactionTime >= ANTICIPATION_MS && (task === 'choice' ? side === target : target !== 'nogo')
+    setLastReactionTime(reactionTime)
+    setLastCorrect(correct)
+    onTrial({
+      stimulus: stimulusLabel(target),
+      response: side ?? 'click',
+      correct,
+      latency: reactionTime,
+      stimulusAt: perfToEpoch(onset),
+      responseAt: perfToEpoch(time),
+      input,
+    })
+    setPhase('result')
+    finishTrial({ stimulus: target, rt: reactionTime, correct })
+  }, [phase, task, onTrial, clock, startTrial, finishTrial, stimulusLabel, onsetRef])
+
+  // 键盘作答：选择反应用 ← / →（或 F / J），其余任务用空格
+  useKeyboard(clock, (key, event) => {
+    const time = eventTime(event)
+    if (task === 'choice') {
+      if (key === 'ArrowLeft' || key === 'f' || key === 'F') handleResponse('left', 'keyboard', time)
+      else if (key === 'ArrowRight' || key === 'j' || key === 'J') handleResponse('right', 'keyboard', time)
+      else return false
+    } else if (key === ' ') {
+      handleResponse(null, 'keyboard', time)
+    } else {
+      return false
     }
+    return true
+  })
+
+  const getCircleColor = (side?: Side): string => {
+    if (phase === 'tooEarly') return '#e74c3c'
+    if (phase !== 'signal') return '#ccc'
+    if (side) return stimulus === side ? '#27ae60' : '#ccc'
+    return stimulus === 'nogo' ? '#e74c3c' : '#27ae60'
   }
 
   const getResultQuality = (ms: number): { label: string; className: string } => {
@@ -163,77 +351,36 @@ export default function ReactionTest({ difficulty, onComplete }: Props) {
     return { label: '较慢', className: 'chip-slow' }
   }
 
-  const getChipClass = (ms: number): string => {
-    if (ms < 150) return 'chip-warn'
-    if (ms < 250) return 'chip-fast'
-    if (ms < 350) return 'chip-ok'
+  const getChipClass = (result: TrialResult): string => {
+    if (!result.correct || result.rt === null || result.rt < 150) return 'chip-warn'
+    if (result.rt < 250) return 'chip-fast'
+    if (result.rt < 350) return 'chip-ok'
     return 'chip-slow'
   }
 
-  const averageTime = reactionTimes.length > 0
-    ? Math.round(reactionTimes.reduce((a, b) => a + b, 0) / reactionTimes.length)
-    : 0
-
-  const validTimes = reactionTimes.filter(t => t >= 150)
-  const averageValidTime = validTimes.length > 0
-    ? Math.round(validTimes.reduce((a, b) => a + b, 0) / validTimes.length)
-    : 0
-
-  const bestTime = reactionTimes.length > 0 ? Math.min(...reactionTimes) : 0
-  const worstTime = reactionTimes.length > 0 ? Math.max(...reactionTimes) : 0
+  const responded = results.filter(r => r.rt !== null)
+  const { mean: averageValidTime } = rtSummary(results.filter(r => r.correct && r.rt !== null).map(r => r.rt!))
+  const errorText = task === 'choice' ? '方向错了' : stimulus === 'nogo' ? '红色不要点' : '太快了，像是预判'
 
   const displayedTrial = Math.min(currentTrial + 1, totalTrials)
 
-  if (phase === 'done') {
-    return (
-      <div className="game-area">
-        <div className="reaction-done-title">测试完成!</div>
-
-        <div className="reaction-done-stats">
-          <div className="reaction-done-stat">
-            <div className="reaction-done-stat-value">{averageTime}ms</div>
-            <div className="reaction-done-stat-label">平均反应</div>
-          </div>
-          {validTimes.length > 0 && validTimes.length < reactionTimes.length && (
-            <div className="reaction-done-stat">
-              <div className="reaction-done-stat-value">{averageValidTime}ms</div>
-              <div className="reaction-done-stat-label">有效平均</div>
-            </div>
-          )}
-          <div className="reaction-done-stat">
-            <div className="reaction-done-stat-value highlight-fast">{bestTime}ms</div>
-            <div className="reaction-done-stat-label">最快</div>
-          </div>
-          <div className="reaction-done-stat">
-            <div className="reaction-done-stat-value">{worstTime}ms</div>
-            <div className="reaction-done-stat-label">最慢</div>
-          </div>
-        </div>
-
-        <div className="reaction-done-detail">
-          <div className="reaction-done-detail-title">各轮反应时间</div>
-          <div className="reaction-times">
-            {reactionTimes.map((rt, i) => (
-              <span key={i} className={`reaction-time-chip ${getChipClass(rt)}`}>
-                第{i + 1}轮 {rt}ms
-              </span>
-            ))}
-          </div>
-        </div>
-      </div>
-    )
-  }
-
   return (
     <div className="game-area">
       <div className="game-stats">
-        <div className="game-stat">
-          <div className="game-stat-value">
-            {displayedTrial} / {totalTrials}
+        {staircase ? (
+          <div className="game-stat">
+            <div className="game-stat-value">{signalDuration(staircase.level())}ms</div>
+            <div className="game-stat-label">信号持续</div>
           </div>
-          <div className="game-stat-label">进度</div>
-        </div>
-        {reactionTimes.length > 0 && (
+        ) : (
+          <div className="game-stat">
+            <div className="game-stat-value">
+              {displayedTrial} / {totalTrials}
+            </div>
+            <div className="game-stat-label">进度</div>
+          </div>
+        )}
+        {averageValidTime > 0 && (
           <div className="game-stat">
             <div className="game-stat-value">{averageValidTime}ms</div>
             <div className="game-stat-label">平均反应</div>
@@ -243,10 +390,15 @@ export default function ReactionTest({ difficulty, onComplete }: Props) {
 
       <div className="reaction-status">
         {phase === 'waiting' && '准备...'}
-        {phase === 'ready' && '等待绿色...'}
-        {phase === 'signal' && '点击!'}
+        {phase === 'ready' && TASKS[task].ready}
+        {phase === 'signal' && (task === 'gonogo' ? TASKS.gonogo.ready : '点击!')}
         {phase === 'tooEarly' && '太早了!'}
+        {phase === 'missed' && (staircase ? '慢了，信号已熄灭' : '超时未作答')}
+        {phase === 'withheld' && <span className="reaction-status-result chip-fast">忍住了，正确!</span>}
         {phase === 'result' && lastReactionTime !== null && (() => {
+          if (!lastCorrect) {
+            return <span className="reaction-status-result chip-slow">{errorText}</span>
+          }
           const q = getResultQuality(lastReactionTime)
           return (
             <span className={`reaction-status-result ${q.className}`}>
@@ -256,11 +408,28 @@ export default function ReactionTest({ difficulty, onComplete }: Props) {
         })()}
       </div>
 
-      <div className="reaction-area" onClick={handleCircleClick}>
-        <div
-          className="reaction-circle"
-          style={{ backgroundColor: getCircleColor() }}
-        />
+      {task === 'choice' ? (
+        <div className="reaction-area reaction-area-choice">
+          {(['left', 'right'] as const).map(side => (
+            <div
+              key={side}
+              className="reaction-circle"
+              style={{ backgroundColor: getCircleColor(side) }}
+              onPointerDown={(e) => handleResponse(side, 'pointer', eventTime(e.nativeEvent))}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="reaction-area" onPointerDown={(e) => handleResponse(null, 'pointer', eventTime(e.nativeEvent))}>
+          <div
+            className="reaction-circle"
+            style={{ backgroundColor: getCircleColor() }}
+          />
+        </div>
+      )}
+
+      <div className="key-hint">
+        {task === 'choice' ? '键盘：← / → 或 F / J 选择一侧' : '键盘：空格键作答'}
       </div>
 
       {phase === 'tooEarly' && (
@@ -269,11 +438,11 @@ export default function ReactionTest({ difficulty, onComplete }: Props) {
         </div>
       )}
 
-      {reactionTimes.length > 0 && (
+      {responded.length > 0 && (
         <div className="reaction-times">
-          {reactionTimes.map((rt, i) => (
-            <span key={i} className={`reaction-time-chip ${getChipClass(rt)}`}>
-              {rt}ms
+          {responded.map((r, i) => (
+            <span key={i} className={`reaction-time-chip ${getChipClass(r)}`}>
+              {r.rt}ms
             </span>
           ))}
         </div>
@@ -281,3 +450,89 @@ export default function ReactionTest({ difficulty, onComplete }: Props) {
     </div>
   )
 }
+
+/**
+ * 每试次 800 减反应时、预判不得分，理论上限 650 没人达得到；
+ * 满分按各任务的较快平均反应时计，与难度无关
+ */
+function skilledScore(options: GameOptions): number {
+  return 800 - TASKS[isTask(options.task) ? options.task : 'simple'].fastestRt
+}
+
+export const definition = defineGame({
+  id: 'reaction',
+  name: '闪电反应',
+  icon: '⚡',
+  color: '#E67E22',
+  domain: '处理速度',
+  description: '信号出现立即点击，测试反应速度',
+  howToPlay: '等待圆圈变绿后立即点击，注意不要在变绿之前误触。选择反应：左右两个圆哪个变绿就点哪个；Go/No-Go：绿色立即点击，红色忍住不点。',
+  prototype: '简单反应时、选择反应时与 Go/No-Go 任务',
+  component: ReactionTest,
+  maxScore: (_, options) => skilledScore(options),
+  perfectScore: (_, options) => skilledScore(options),
+  options: [
+    {
+      id: 'task',
+      label: '任务',
+      choices: (Object.keys(TASKS) as Task[]).map((value) => ({ value, label: TASKS[value].label })),
+    },
+  ],
+  metrics: {
+    meanRt: '平均反应时(ms)',
+    rtSd: '反应时标准差(ms)',
+    rtCv: '变异系数(%)',
+    commissionErrors: '误按',
+    anticipations: '预判',
+    omissionErrors: '漏按',
+    timingError: '计时误差(ms)',
+  },
+  adaptive: {
+    parameter: '信号持续时间',
+    maxLevel: () => ADAPTIVE.maxLevel,
+    describe: (level) => `${Math.round(signalDuration(level))} ms`,
+  },
+  intro: {
+    title: '处理速度',
+    content:
+      '处理速度是大脑接收、理解和回应信息的效率，也是最早随年龄下降的认知能力之一。简单反应时间测试能够衡量基本的神经加工效率，反映信号从感知到运动输出的完整通路。研究表明，规律的有氧运动有助于维持和改善处理速度。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '有氧运动提升处理速度',
+      content:
+        '规律的有氧运动（如快走、游泳、骑车）能增加脑血流量，促进神经传导效率。研究表明，每周3-5次、每次30分钟的中等强度有氧运动，可以显著提升认知处理速度。',
+    },
+    {
+      id: 2,
+      title: '睡眠质量影响反应时间',
+      content:
+        '睡眠不足会显著延长反应时间，甚至媲美酒精的影响。24小时不睡觉的认知损害等同于血液酒精浓度0.1%。保证每晚7-8小时优质睡眠，是维持快速反应能力的基础。',
+    },
+    {
+      id: 3,
+      title: '处理速度的正常老化',
+      content:
+        '处理速度从20多岁开始逐步下降，是正常衰老的一部分。但下降速度因人而异，保持积极的生活方式、持续的认知参与和良好的心血管健康，都能有效减缓这一过程。',
+    },
+    {
+      id: 4,
+      title: '咖啡因对反应时间的影响',
+      content:
+        '适量咖啡因（约200mg，相当于1-2杯咖啡）能短暂提升警觉性和反应速度。但过量摄入反而会引起焦虑、手抖，降低精细动作的反应精度。建议下午2点后避免摄入咖啡因以免影响睡眠。',
+    },
+    {
+      id: 5,
+      title: '正念练习改善反应质量',
+      content:
+        '正念冥想训练不仅能缩短反应时间，更能减少冲动性错误。研究发现，8周的正念训练可以提升注意警觉性，让反应既快又准，这在日常活动如驾驶中尤为重要。',
+    },
+    {
+      id: 6,
+      title: '水分充足保障认知速度',
+      content:
+        '轻度脱水（体重减少1-2%的水分）就会导致反应时间变慢和注意力下降。大脑约75%由水组成，每天应饮用1500-2000毫升水。老年人渴觉减退，需有意识地定时饮水。',
+    },
+  ],
+})
@@ -1,30 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react'
-import { Difficulty } from '../types'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { FixedDifficulty, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { gridPositions, useGridCursor } from '../utils/keyboard'
+import { defineGame } from './registry'
 
 interface Props {
-  difficulty: Difficulty
+  difficulty: FixedDifficulty
+  rng: Rng
+  clock: GameClock
   onComplete: (score: number) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
-const SETTINGS: Record<Difficulty, { size: number; targetTime: number }> = {
+const SETTINGS: Record<FixedDifficulty, { size: number; targetTime: number }> = {
   easy:   { size: 3, targetTime: 20 },
   normal: { size: 4, targetTime: 30 },
   hard:   { size: 5, targetTime: 50 },
 }
 
-function shuffleArray(arr: number[]): number[] {
-  const shuffled = [...arr]
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
-  }
-  return shuffled
-}
-
-function generateNumbers(size: number): number[] {
+function generateNumbers(size: number, rng: Rng): number[] {
   const total = size * size
   const ordered = Array.from({ length: total }, (_, i) => i + 1)
-  return shuffleArray(ordered)
+  return rng.shuffle(ordered)
 }
 
 function calculateScore(elapsed: number, errors: number, targetTime: number): number {
@@ -45,11 +45,11 @@ function calculateScore(elapsed: number, errors: number, targetTime: number): nu
   return Math.max(0, base + timeBonus - errorPenalty)
 }
 
-export default function SchulteGrid({ difficulty, onComplete }: Props) {
+export default function SchulteGrid({ difficulty, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const { size, targetTime } = SETTINGS[difficulty]
   const total = size * size
 
-  const [numbers] = useState<number[]>(() => generateNumbers(size))
+  const [numbers] = useState<number[]>(() => generateNumbers(size, rng))
   const [nextNumber, setNextNumber] = useState(1)
   const [completed, setCompleted] = useState<Set<number>>(() => new Set())
   const [errors, setErrors] = useState(0)
@@ -57,31 +57,39 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
   const [started, setStarted] = useState(false)
   const [errorCell, setErrorCell] = useState<number | null>(null)
 
-  const errorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const errorTimerRef = useRef<TimerId | null>(null)
   const finishedRef = useRef(false)
+  // 当前目标数字开始被搜索的时刻（上一次正确点击或开局）
+  const targetShownAt = useRef(Date.now())
+
+  // 上报进度，中途退出时据此保存
+  // 得分取决于全部完成的用时，未完成时记 0 分
+  useEffect(() => {
+    onProgress({ round: nextNumber - 1, total, score: 0 })
+  }, [nextNumber, total, onProgress])
 
   // Timer: runs every 100ms once started, updates elapsed with 1 decimal
   useEffect(() => {
     if (!started || finishedRef.current) return
 
-    const interval = setInterval(() => {
+    const interval = clock.setInterval(() => {
       setElapsed((prev) => Math.round((prev + 0.1) * 10) / 10)
     }, 100)
 
-    return () => clearInterval(interval)
-  }, [started])
+    return () => clock.clearInterval(interval)
+  }, [started, clock])
 
   // Clean up error flash timeout on unmount
   useEffect(() => {
     return () => {
       if (errorTimerRef.current) {
-        clearTimeout(errorTimerRef.current)
+        clock.clearTimeout(errorTimerRef.current)
       }
     }
-  }, [])
+  }, [clock])
 
   const handleCellClick = useCallback(
-    (index: number) => {
+    (index: number, input: InputModality) => {
       if (finishedRef.current) return
 
       const clickedNumber = numbers[index]
@@ -89,6 +97,8 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
       // Already completed this number
       if (completed.has(clickedNumber)) return
 
+      onTrial(respondedTrial(String(nextNumber), targetShownAt.current, String(clickedNumber), clickedNumber === nextNumber, input))
+
       if (clickedNumber === nextNumber) {
         // Correct click
         if (!started) {
@@ -101,6 +111,7 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
 
         const newNext = nextNumber + 1
         setNextNumber(newNext)
+        targetShownAt.current = Date.now()
 
         // Check if game is finished
         if (newNext > total) {
@@ -110,7 +121,7 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
             const finalElapsed = Math.round((prev + 0.1) * 10) / 10
             const score = calculateScore(finalElapsed, errors, targetTime)
             // Defer onComplete to avoid setState-during-render issues
-            setTimeout(() => onComplete(score), 0)
+            clock.setTimeout(() => onComplete(score), 0)
             return finalElapsed
           })
         }
@@ -125,23 +136,28 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
 
         // Clear previous error flash timer
         if (errorTimerRef.current) {
-          clearTimeout(errorTimerRef.current)
+          clock.clearTimeout(errorTimerRef.current)
         }
 
-        errorTimerRef.current = setTimeout(() => {
+        errorTimerRef.current = clock.setTimeout(() => {
           setErrorCell(null)
           errorTimerRef.current = null
         }, 300)
       }
     },
-    [numbers, nextNumber, completed, started, errors, total, targetTime, onComplete]
+    [numbers, nextNumber, completed, started, errors, total, targetTime, onComplete, onTrial, clock]
   )
 
+  // 键盘：方向键移动光标，回车或空格点选
+  const positions = useMemo(() => gridPositions(total, size), [total, size])
+  const cursor = useGridCursor(clock, positions, (index) => handleCellClick(index, 'keyboard'))
+
   const getCellClass = (index: number): string => {
     const num = numbers[index]
-    if (completed.has(num)) return 'schulte-cell correct'
-    if (errorCell === index) return 'schulte-cell error'
-    return 'schulte-cell'
+    const base = cursor === index ? 'schulte-cell kb-cursor' : 'schulte-cell'
+    if (completed.has(num)) return `${base} correct`
+    if (errorCell === index) return `${base} error`
+    return base
   }
 
   return (
@@ -173,12 +189,74 @@ export default function SchulteGrid({ difficulty, onComplete }: Props) {
           <button
             key={index}
             className={getCellClass(index)}
-            onClick={() => handleCellClick(index)}
+            onClick={() => handleCellClick(index, 'pointer')}
           >
             {num}
           </button>
         ))}
       </div>
+
+      <div className="key-hint">键盘：方向键移动光标，回车或空格点选</div>
     </div>
   )
 }
+
+const MAX_SCORE: Record<FixedDifficulty, number> = { easy: 800, normal: 800, hard: 800 }
+
+export const definition = defineGame({
+  id: 'schulte',
+  name: '舒尔特方格',
+  icon: '🎯',
+  color: '#3498DB',
+  domain: '注意力',
+  description: '按顺序点击数字，训练视觉搜索',
+  howToPlay: '在方格中按从小到大的顺序依次点击数字，用时越短得分越高。',
+  prototype: 'Schulte Grid',
+  component: SchulteGrid,
+  maxScore: (difficulty) => MAX_SCORE[difficulty],
+  // 目标用时按熟练者的速度设定
+  perfectScore: (difficulty) => calculateScore(SETTINGS[difficulty].targetTime, 0, SETTINGS[difficulty].targetTime),
+  intro: {
+    title: '注意力',
+    content:
+      '注意力是大脑将资源集中在重要信息上的能力。注意力减退是许多认知障碍的早期表现之一。舒尔特方格训练可有效提升视觉搜索速度和注意广度，是世界范围内应用广泛的注意力训练工具。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '正念冥想提升注意力',
+      content:
+        '每天10-15分钟的正念冥想练习，8周后即可显著提升持续注意力和选择性注意力。从关注呼吸开始，逐步延长专注时间。',
+    },
+    {
+      id: 2,
+      title: '注意力也需要"休息"',
+      content:
+        '持续高强度注意后，大脑需要恢复。每工作45-60分钟，休息10分钟。番茄工作法（25分钟专注+5分钟休息）是很好的注意力管理策略。',
+    },
+    {
+      id: 3,
+      title: '多任务降低注意效率',
+      content:
+        '同时做多件事会分散注意资源，降低效率达40%。尽量一次专注做一件事，减少手机等干扰源的影响。',
+    },
+    {
+      id: 4,
+      title: '良好听力保护注意力',
+      content:
+        '听力下降会迫使大脑分配更多资源用于听觉处理，从而减少注意力资源。定期检查听力，必要时配戴助听器。',
+    },
+    {
+      id: 5,
+      title: '绿色环境恢复注意力',
+      content:
+        '研究显示，在自然环境中散步20分钟，能显著恢复因疲劳而下降的注意力。即使看窗外的绿色植物也有帮助。',
+    },
+    {
+      id: 6,
+      title: '血糖稳定，注意力集中',
+      content:
+        '大脑消耗全身约20%的葡萄糖。低血糖或血糖波动会导致注意力明显下降。规律进食、选择低升糖指数食物有助于维持稳定。',
+    },
+  ],
+})
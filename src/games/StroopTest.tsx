@@ -1,131 +1,398 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { Difficulty, FixedDifficulty, GameMetrics, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial, missedTrial, rtSummary } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock, TimerId } from '../utils/clock'
+import { createStaircase } from '../utils/staircase'
+import { optionIndexFromKey, useKeyboard } from '../utils/keyboard'
+import { eventTime, perfToEpoch, useStimulusOnset, useTimingPrecision } from '../utils/timing'
+import { defineGame } from './registry'
 
 interface Props {
-  difficulty: 'easy' | 'normal' | 'hard'
-  onComplete: (score: number) => void
+  difficulty: Difficulty
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
+  onComplete: (score: number, metrics: GameMetrics) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
-interface ColorEntry {
+/** 作答选项：颜色选项带色值，空间模式的方位选项没有 */
+interface Choice {
   name: string
-  value: string
+  color: string | null
 }
 
+/** 字出现的方位，仅空间模式使用 */
+type Place = '上' | '下' | '左' | '右'
+
 interface Trial {
   word: string
-  inkColor: string
-  correctAnswer: string
-  options: ColorEntry[]
+  /** 字的颜色，空间模式不着色为 null */
+  ink: string | null
+  place: Place | null
+  answer: string
+  options: Choice[]
+  /** 是否为基线条件：一致试次，情绪模式中为中性词 */
+  baseline: boolean
+  /** 试次事件中的刺激描述："词义/墨色"，空间模式为 "词义@方位" */
+  label: string
 }
 
-const COLORS: ColorEntry[] = [
-  { name: '红色', value: '#E74C3C' },
-  { name: '蓝色', value: '#3498DB' },
-  { name: '绿色', value: '#2ECC71' },
-  { name: '黄色', value: '#F1C40F' },
+const COLORS: Choice[] = [
+  { name: '红色', color: '#E74C3C' },
+  { name: '蓝色', color: '#3498DB' },
+  { name: '绿色', color: '#2ECC71' },
+  { name: '黄色', color: '#F1C40F' },
 ]
 
-const DIFFICULTY_SETTINGS = {
-  easy:   { totalRounds: 15, colorCount: 3, incongruentRate: 0.3,  shufflePositions: false },
-  normal: { totalRounds: 20, colorCount: 4, incongruentRate: 0.7,  shufflePositions: false },
-  hard:   { totalRounds: 25, colorCount: 4, incongruentRate: 0.85, shufflePositions: true },
-} as const
-
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array]
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[arr[i], arr[j]] = [arr[j], arr[i]]
-  }
-  return arr
+/** 简单、普通难度只用上下两个方位，困难加上左右 */
+const PLACES: Place[] = ['上', '下', '左', '右']
+
+const PLACE_CLASS: Record<Place, string> = { 上: 'top', 下: 'bottom', 左: 'left', 右: 'right' }
+
+/** 情绪 Stroop 的词表，两组字数相同、都是常用词，只在情绪色彩上不同 */
+const NEUTRAL_WORDS = ['桌子', '窗户', '杯子', '铅笔', '雨伞', '椅子', '钥匙', '书架', '台灯', '毛巾']
+const EMOTIONAL_WORDS = ['死亡', '痛苦', '恐惧', '悲伤', '孤独', '绝望', '危险', '疾病', '愤怒', '哭泣']
+
+/** 玩法：经典（选墨色）、反向（选词义）、空间（选方位）、情绪（选墨色，词分中性 / 情绪） */
+type Mode = 'classic' | 'reverse' | 'spatial' | 'emotional'
+
+interface ModeSettings {
+  totalRounds: number
+  /** 颜色数或方位数，也就是选项数 */
+  choiceCount: number
+  /** 冲突试次的比例：不一致试次，情绪模式中为情绪词 */
+  conflictRate: number
+  shufflePositions: boolean
+}
+
+/** 计分：答对得 points，作答快于 speedMs 再加 speedBonus；答错统一扣 5 分，连对奖励各模式相同 */
+interface ScoreScale {
+  points: number
+  speedBonus: number
+  speedMs: number
 }
 
-function generateTrial(colorPool: ColorEntry[], incongruentRate: number, shufflePositions: boolean): Trial {
-  const isIncongruent = Math.random() < incongruentRate
+/** 连对到这些题数时的一次性奖励 */
+const STREAK_BONUSES: Record<number, number> = { 5: 20, 10: 50 }
 
-  const wordIndex = Math.floor(Math.random() * colorPool.length)
-  const wordColor = colorPool[wordIndex]
+/** 两种条件对应的指标键，情绪模式比较的是中性词和情绪词而不是一致与否 */
+interface ConditionKeys {
+  interference: string
+  baselineRt: string
+  conflictRt: string
+  baselineAccuracy: string
+  conflictAccuracy: string
+}
+
+const CONGRUENCY_KEYS: ConditionKeys = {
+  interference: 'interference',
+  baselineRt: 'congruentRt',
+  conflictRt: 'incongruentRt',
+  baselineAccuracy: 'congruentAccuracy',
+  conflictAccuracy: 'incongruentAccuracy',
+}
+
+const EMOTION_KEYS: ConditionKeys = {
+  interference: 'emotionalInterference',
+  baselineRt: 'neutralRt',
+  conflictRt: 'emotionalRt',
+  baselineAccuracy: 'neutralAccuracy',
+  conflictAccuracy: 'emotionalAccuracy',
+}
+
+interface ModeInfo {
+  label: string
+  /** 题目上方的作答提示 */
+  instruction: string
+  /** adaptive 的 totalRounds 为阶梯的试次上限 */
+  settings: Record<Difficulty, ModeSettings>
+  scale: ScoreScale
+  /** 全部答对且都拿到速度奖励的得分 */
+  maxScore: Record<FixedDifficulty, number>
+  conditions: ConditionKeys
+}
+
+const COLOR_SETTINGS: Record<Difficulty, ModeSettings> = {
+  easy:     { totalRounds: 15, choiceCount: 3, conflictRate: 0.3,  shufflePositions: false },
+  normal:   { totalRounds: 20, choiceCount: 4, conflictRate: 0.7,  shufflePositions: false },
+  hard:     { totalRounds: 25, choiceCount: 4, conflictRate: 0.85, shufflePositions: true },
+  adaptive: { totalRounds: 40, choiceCount: 4, conflictRate: 0.7,  shufflePositions: false },
+}
 
-  let inkColor: ColorEntry
+const MODES: Record<Mode, ModeInfo> = {
+  classic: {
+    label: '经典',
+    instruction: '选出字的颜色',
+    settings: COLOR_SETTINGS,
+    scale: { points: 10, speedBonus: 5, speedMs: 2000 },
+    maxScore: { easy: 295, normal: 370, hard: 445 },
+    conditions: CONGRUENCY_KEYS,
+  },
+  // 读词比辨色自动化得多，反向的干扰更小，作答也更快
+  reverse: {
+    label: '反向',
+    instruction: '选出字的意思，不管颜色',
+    settings: COLOR_SETTINGS,
+    scale: { points: 8, speedBonus: 4, speedMs: 1200 },
+    maxScore: { easy: 250, normal: 310, hard: 370 },
+    conditions: CONGRUENCY_KEYS,
+  },
+  spatial: {
+    label: '空间',
+    instruction: '选出字所在的位置，不管字的意思',
+    settings: {
+      easy:     { totalRounds: 16, choiceCount: 2, conflictRate: 0.3, shufflePositions: false },
+      normal:   { totalRounds: 20, choiceCount: 2, conflictRate: 0.6, shufflePositions: false },
+      hard:     { totalRounds: 24, choiceCount: 4, conflictRate: 0.8, shufflePositions: true },
+      adaptive: { totalRounds: 40, choiceCount: 2, conflictRate: 0.6, shufflePositions: false },
+    },
+    scale: { points: 8, speedBonus: 4, speedMs: 1000 },
+    maxScore: { easy: 262, normal: 310, hard: 358 },
+    conditions: CONGRUENCY_KEYS,
+  },
+  // 情绪词与中性词各半，比较两者的反应时
+  emotional: {
+    label: '情绪',
+    instruction: '选出字的颜色，不管字的意思',
+    settings: {
+      easy:     { totalRounds: 16, choiceCount: 3, conflictRate: 0.5, shufflePositions: false },
+      normal:   { totalRounds: 20, choiceCount: 4, conflictRate: 0.5, shufflePositions: false },
+      hard:     { totalRounds: 24, choiceCount: 4, conflictRate: 0.5, shufflePositions: true },
+      adaptive: { totalRounds: 40, choiceCount: 4, conflictRate: 0.5, shufflePositions: false },
+    },
+    scale: { points: 10, speedBonus: 5, speedMs: 1500 },
+    maxScore: { easy: 310, normal: 370, hard: 430 },
+    conditions: EMOTION_KEYS,
+  },
+}
+
+function isMode(value: string | undefined): value is Mode {
+  return value !== undefined && value in MODES
+}
+
+/** 每题都答对且拿到速度奖励，连对奖励全部拿到 */
+function perfectScore(difficulty: FixedDifficulty, options: GameOptions): number {
+  const { settings, scale } = MODES[isMode(options.mode) ? options.mode : 'classic']
+  const rounds = settings[difficulty].totalRounds
+  const streakBonus = Object.entries(STREAK_BONUSES)
+    .filter(([streak]) => Number(streak) <= rounds)
+    .reduce((sum, [, bonus]) => sum + bonus, 0)
+  return rounds * (scale.points + scale.speedBonus) + streakBonus
+}
+
+/** 自适应：每题须在时限内作答，等级越高时限越短 */
+const ADAPTIVE = { startLevel: 6, maxLevel: 21, longestMs: 2500, stepMs: 100 }
+
+function responseDeadline(level: number): number {
+  return ADAPTIVE.longestMs - (level - 1) * ADAPTIVE.stepMs
+}
+
+/** 一个试次的结果 */
+interface TrialResult {
+  /** 是否为基线条件，见 Trial.baseline */
+  baseline: boolean
+  correct: boolean
+  /** 扣除暂停后的反应时，超时未作答为 null */
+  rt: number | null
+}
+
+/** 正确试次的平均反应时，没有正确试次时为 null */
+function meanCorrectRt(results: TrialResult[]): number | null {
+  const rts = results.filter(r => r.correct && r.rt !== null).map(r => r.rt!)
+  return rts.length > 0 ? rtSummary(rts).mean : null
+}
+
+/**
+ * Stroop 的临床指标：干扰效应（冲突条件减基线条件的正确反应时）、两种条件各自的正确率，
+ * 以及错误后减慢（错误后与正确后的下一次正确反应时之差）。某个条件没有数据时不输出相应指标。
+ */
+function stroopMetrics(results: TrialResult[], keys: ConditionKeys): GameMetrics {
+  const metrics: GameMetrics = {}
+  const baseline = results.filter(r => r.baseline)
+  const conflict = results.filter(r => !r.baseline)
+  const accuracy = (group: TrialResult[]) => Math.round((group.filter(r => r.correct).length / group.length) * 100)
+
+  const baselineRt = meanCorrectRt(baseline)
+  const conflictRt = meanCorrectRt(conflict)
+  if (baselineRt !== null && conflictRt !== null) metrics[keys.interference] = conflictRt - baselineRt
+  if (baselineRt !== null) metrics[keys.baselineRt] = baselineRt
+  if (conflictRt !== null) metrics[keys.conflictRt] = conflictRt
+  if (baseline.length > 0) metrics[keys.baselineAccuracy] = accuracy(baseline)
+  if (conflict.length > 0) metrics[keys.conflictAccuracy] = accuracy(conflict)
+
+  const postError = meanCorrectRt(results.filter((_, i) => i > 0 && !results[i - 1].correct))
+  const postCorrect = meanCorrectRt(results.filter((_, i) => i > 0 && results[i - 1].correct))
+  if (postError !== null && postCorrect !== null) metrics.postErrorSlowing = postError - postCorrect
+
+  return metrics
+}
+
+/** 冲突试次从其余选项中另取一个，使两个维度不一致 */
+function pickOther<T>(items: T[], except: T, rng: Rng): T {
+  return rng.pick(items.filter(item => item !== except))
+}
 
-  if (isIncongruent) {
-    const others = colorPool.filter((_, i) => i !== wordIndex)
-    inkColor = others[Math.floor(Math.random() * others.length)]
-  } else {
-    inkColor = wordColor
+function generateTrial(mode: Mode, settings: ModeSettings, rng: Rng): Trial {
+  const conflict = rng.chance(settings.conflictRate)
+  const arrange = (choices: Choice[]) => (settings.shufflePositions ? rng.shuffle(choices) : [...choices])
+
+  if (mode === 'spatial') {
+    const places = PLACES.slice(0, settings.choiceCount)
+    const place = rng.pick(places)
+    const word = conflict ? pickOther(places, place, rng) : place
+    return {
+      word,
+      ink: null,
+      place,
+      answer: place,
+      options: arrange(places.map(name => ({ name, color: null }))),
+      baseline: !conflict,
+      label: `${word}@${place}`,
+    }
   }
 
-  let options: ColorEntry[]
-  if (shufflePositions) {
-    options = shuffle(colorPool)
-  } else {
-    options = [...colorPool]
+  const colorPool = COLORS.slice(0, settings.choiceCount)
+
+  if (mode === 'emotional') {
+    const word = rng.pick(conflict ? EMOTIONAL_WORDS : NEUTRAL_WORDS)
+    const ink = rng.pick(colorPool)
+    return {
+      word,
+      ink: ink.color,
+      place: null,
+      answer: ink.name,
+      options: arrange(colorPool),
+      baseline: !conflict,
+      label: `${word}/${ink.name}`,
+    }
   }
 
+  const wordColor = rng.pick(colorPool)
+  const ink = conflict ? pickOther(colorPool, wordColor, rng) : wordColor
   return {
     word: wordColor.name,
-    inkColor: inkColor.value,
-    correctAnswer: inkColor.name,
-    options,
+    ink: ink.color,
+    place: null,
+    answer: mode === 'reverse' ? wordColor.name : ink.name,
+    options: arrange(colorPool),
+    baseline: !conflict,
+    label: `${wordColor.name}/${ink.name}`,
   }
 }
 
-export default function StroopTest({ difficulty, onComplete }: Props) {
-  const settings = DIFFICULTY_SETTINGS[difficulty]
-  const colorPool = COLORS.slice(0, settings.colorCount)
+export default function StroopTest({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
+  const mode: Mode = isMode(options.mode) ? options.mode : 'classic'
+  const { settings: modeSettings, scale, conditions, instruction } = MODES[mode]
+  const settings = modeSettings[difficulty]
 
   const [round, setRound] = useState(1)
   const [score, setScore] = useState(0)
-  const [currentWord, setCurrentWord] = useState('')
-  const [currentInkColor, setCurrentInkColor] = useState('')
-  const [correctAnswer, setCorrectAnswer] = useState('')
-  const [options, setOptions] = useState<ColorEntry[]>([])
+  const [trial, setTrial] = useState<Trial | null>(null)
   const [streak, setStreak] = useState(0)
   const [feedback, setFeedback] = useState<'correct' | 'wrong' | null>(null)
-
-  const feedbackTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [expired, setExpired] = useState(false)
+  // 每出一题加一，用于记录刺激真正呈现的时刻
+  const [trialId, setTrialId] = useState(0)
+  const [staircase] = useState(() => difficulty === 'adaptive'
+    ? createStaircase({ start: ADAPTIVE.startLevel, min: 1, max: ADAPTIVE.maxLevel, maxTrials: settings.totalRounds })
+    : null)
+
+  const feedbackTimerRef = useRef<TimerId | null>(null)
+  const deadlineTimerRef = useRef<TimerId | null>(null)
   const isProcessing = useRef(false)
+  // 刺激呈现时刻 (epoch ms)
   const trialStartTime = useRef<number>(Date.now())
   const scoreRef = useRef(0)
   const roundRef = useRef(1)
+  const resultsRef = useRef<TrialResult[]>([])
+
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress(staircase
+      ? { round: staircase.trials(), total: null, score: staircase.threshold() }
+      : { round: round - 1, total: settings.totalRounds, score })
+  }, [round, settings.totalRounds, score, staircase, onProgress])
 
   const loadTrial = useCallback(() => {
-    const trial = generateTrial(colorPool, settings.incongruentRate, settings.shufflePositions)
-    setCurrentWord(trial.word)
-    setCurrentInkColor(trial.inkColor)
-    setCorrectAnswer(trial.correctAnswer)
-    setOptions(trial.options)
+    setTrial(generateTrial(mode, settings, rng))
     setFeedback(null)
+    setExpired(false)
     isProcessing.current = false
-    trialStartTime.current = Date.now()
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings.colorCount, settings.incongruentRate, settings.shufflePositions])
+    setTrialId(id => id + 1)
+  }, [mode, settings, rng])
+
+  // 刺激画到屏幕上之后才开始计时，作答时限也从这一刻算起
+  const onsetRef = useStimulusOnset(trialId, (onset) => {
+    trialStartTime.current = perfToEpoch(onset)
+    if (staircase) {
+      deadlineTimerRef.current = clock.setTimeout(() => setExpired(true), responseDeadline(staircase.level()))
+    }
+  })
+  const precisionRef = useTimingPrecision()
+
+  const finish = useCallback((finalScore: number) => {
+    const metrics = stroopMetrics(resultsRef.current, conditions)
+    if (precisionRef.current) metrics.timingError = precisionRef.current.errorMs
+    onComplete(finalScore, metrics)
+  }, [conditions, onComplete, precisionRef])
 
   // Initialize first trial
   useEffect(() => {
     loadTrial()
   }, [loadTrial])
 
-  const handleOptionClick = useCallback((colorName: string) => {
-    if (isProcessing.current) return
+  /**
+   * choice 为 null 表示超过作答时限（仅自适应模式）；
+   * time 为输入事件发生的时刻，超时时取当前时刻
+   */
+  const handleOptionClick = useCallback((choice: string | null, input: InputModality = 'pointer', time = performance.now()) => {
+    if (!trial || isProcessing.current) return
     isProcessing.current = true
-
-    const answerTime = Date.now() - trialStartTime.current
-    const isCorrect = colorName === correctAnswer
+    clock.clearTimeout(deadlineTimerRef.current)
+    deadlineTimerRef.current = null
+
+    // 刺激还没画到屏幕上就作答时，以作答时刻作为呈现时刻
+    const shownAt = onsetRef.current !== null ? trialStartTime.current : perfToEpoch(time)
+    const answeredAt = perfToEpoch(time)
+    const answerTime = answeredAt - shownAt - clock.pausedBetween(shownAt, answeredAt)
+    const isCorrect = choice === trial.answer
+    resultsRef.current.push({
+      baseline: trial.baseline,
+      correct: isCorrect,
+      rt: choice === null ? null : Math.round(answerTime),
+    })
+    onTrial(choice === null
+      ? missedTrial(trial.label, shownAt)
+      : respondedTrial(trial.label, shownAt, choice, isCorrect, input, answeredAt))
+
+    // 自适应：只按对错调整时限，不计分，反转次数够了即结束
+    if (staircase) {
+      staircase.record(isCorrect)
+      setStreak(isCorrect ? streak + 1 : 0)
+      setFeedback(isCorrect ? 'correct' : 'wrong')
+      setRound(staircase.trials() + 1)
+      feedbackTimerRef.current = clock.setTimeout(() => {
+        if (staircase.done()) {
+          finish(staircase.threshold())
+        } else {
+          loadTrial()
+        }
+      }, 400)
+      return
+    }
 
     if (isCorrect) {
-      let points = 10
+      let points = scale.points
 
-      if (answerTime <= 2000) {
-        points += 5
+      if (answerTime <= scale.speedMs) {
+        points += scale.speedBonus
       }
 
       const newStreak = streak + 1
-
-      if (newStreak === 10) {
-        points += 50
-      } else if (newStreak === 5) {
-        points += 20
-      }
+      points += STREAK_BONUSES[newStreak] ?? 0
 
       setStreak(newStreak)
       setScore(prev => {
@@ -148,42 +415,74 @@ export default function StroopTest({ difficulty, onComplete }: Props) {
 
     if (nextRound > settings.totalRounds) {
       // Game over after feedback
-      feedbackTimerRef.current = setTimeout(() => {
-        onComplete(scoreRef.current)
+      feedbackTimerRef.current = clock.setTimeout(() => {
+        finish(scoreRef.current)
       }, 400)
     } else {
       setRound(nextRound)
       roundRef.current = nextRound
-      feedbackTimerRef.current = setTimeout(() => {
+      feedbackTimerRef.current = clock.setTimeout(() => {
         loadTrial()
       }, 400)
     }
-  }, [correctAnswer, streak, settings.totalRounds, loadTrial, onComplete])
+  }, [trial, streak, scale, settings.totalRounds, loadTrial, finish, onTrial, clock, staircase, onsetRef])
+
+  useEffect(() => {
+    if (expired) handleOptionClick(null)
+  }, [expired, handleOptionClick])
+
+  const choices = trial?.options ?? []
+
+  // 键盘：数字键按屏幕上的顺序选择
+  useKeyboard(clock, (key, event) => {
+    const index = optionIndexFromKey(key, choices.length)
+    if (index === null) return false
+    handleOptionClick(choices[index].name, 'keyboard', eventTime(event))
+    return true
+  }, feedback === null)
 
   // Cleanup feedback timer on unmount
   useEffect(() => {
     return () => {
-      if (feedbackTimerRef.current) clearTimeout(feedbackTimerRef.current)
+      if (feedbackTimerRef.current) clock.clearTimeout(feedbackTimerRef.current)
+      if (deadlineTimerRef.current) clock.clearTimeout(deadlineTimerRef.current)
     }
-  }, [])
+  }, [clock])
 
-  const correctColor = feedback === 'wrong'
-    ? options.find(o => o.name === correctAnswer)
+  if (!trial) return null
+
+  const correctChoice = feedback === 'wrong'
+    ? choices.find(o => o.name === trial.answer)
     : null
 
   return (
     <div className="game-area">
       <div className="game-stats">
-        <div className="game-stat">
-          <div className="game-stat-value">
-            {round}/{settings.totalRounds}
-          </div>
-          <div className="game-stat-label">轮次</div>
-        </div>
-        <div className="game-stat">
-          <div className="game-stat-value">{score}</div>
-          <div className="game-stat-label">得分</div>
-        </div>
+        {staircase ? (
+          <>
+            <div className="game-stat">
+              <div className="game-stat-value">{responseDeadline(staircase.level())}ms</div>
+              <div className="game-stat-label">作答时限</div>
+            </div>
+            <div className="game-stat">
+              <div className="game-stat-value">{staircase.reversals().length}</div>
+              <div className="game-stat-label">反转次数</div>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="game-stat">
+              <div className="game-stat-value">
+                {round}/{settings.totalRounds}
+              </div>
+              <div className="game-stat-label">轮次</div>
+            </div>
+            <div className="game-stat">
+              <div className="game-stat-value">{score}</div>
+              <div className="game-stat-label">得分</div>
+            </div>
+          </>
+        )}
         {streak > 0 && (
           <div className="game-stat">
             <div className="game-stat-value" style={{ color: 'var(--accent)' }}>
@@ -198,18 +497,26 @@ export default function StroopTest({ difficulty, onComplete }: Props) {
         {streak >= 5 ? `连续 ${streak} 对!` : ''}
       </div>
 
-      <div className="stroop-word" style={{ color: currentInkColor }}>
-        {currentWord}
-      </div>
+      <div className="stroop-instruction">{instruction}</div>
+
+      {trial.place ? (
+        <div className="stroop-spatial-field">
+          <span className={`stroop-spatial-word ${PLACE_CLASS[trial.place]}`}>{trial.word}</span>
+        </div>
+      ) : (
+        <div className="stroop-word" style={{ color: trial.ink ?? undefined }}>
+          {trial.word}
+        </div>
+      )}
 
       <div className="stroop-feedback">
         {feedback === 'correct' && <span style={{ color: 'var(--success)' }}>&#10003;</span>}
         {feedback === 'wrong' && (
           <span>
             <span style={{ color: 'var(--error)' }}>&#10007;</span>
-            {correctColor && (
-              <span style={{ marginLeft: 12, fontSize: '1rem', color: correctColor.value }}>
-                {correctColor.name}
+            {correctChoice && (
+              <span style={{ marginLeft: 12, fontSize: '1rem', color: correctChoice.color ?? undefined }}>
+                {correctChoice.name}
               </span>
             )}
           </span>
@@ -217,34 +524,122 @@ export default function StroopTest({ difficulty, onComplete }: Props) {
       </div>
 
       <div className="stroop-options">
-        {options.map(option => (
+        {choices.map((option, index) => (
           <button
             key={option.name}
             className="stroop-option"
             disabled={feedback !== null}
-            onClick={() => handleOptionClick(option.name)}
+            onPointerDown={(e) => handleOptionClick(option.name, 'pointer', eventTime(e.nativeEvent))}
             style={{
               borderLeftWidth: 6,
-              borderLeftColor: option.value,
+              borderLeftColor: option.color ?? undefined,
               display: 'flex',
               alignItems: 'center',
               gap: 10,
             }}
           >
-            <span
-              style={{
-                display: 'inline-block',
-                width: 14,
-                height: 14,
-                borderRadius: '50%',
-                backgroundColor: option.value,
-                flexShrink: 0,
-              }}
-            />
+            {option.color && (
+              <span
+                style={{
+                  display: 'inline-block',
+                  width: 14,
+                  height: 14,
+                  borderRadius: '50%',
+                  backgroundColor: option.color,
+                  flexShrink: 0,
+                }}
+              />
+            )}
             {option.name}
+            <kbd className="key-badge key-badge-end">{index + 1}</kbd>
           </button>
         ))}
       </div>
+
+      <div className="key-hint">键盘：按数字键 1-{choices.length} 选择</div>
     </div>
   )
 }
+
+export const definition = defineGame({
+  id: 'stroop',
+  name: '颜色词挑战',
+  icon: '🎨',
+  color: '#E74C3C',
+  domain: '执行功能',
+  description: '判断文字墨色，训练抑制控制',
+  howToPlay: '屏幕会显示一个颜色词（如"红色"），但字的颜色和词义不同。请选择文字实际显示的颜色，而非文字含义。反向模式改为选词义、不管颜色；空间模式中"上 / 下"等字会出现在别的位置，请选字所在的位置；情绪模式的词有的平常、有的带强烈情绪，都只看颜色。',
+  prototype: 'Stroop 色词测验',
+  component: StroopTest,
+  maxScore: (difficulty, options) => MODES[isMode(options.mode) ? options.mode : 'classic'].maxScore[difficulty],
+  perfectScore,
+  options: [
+    {
+      id: 'mode',
+      label: '模式',
+      choices: (Object.keys(MODES) as Mode[]).map((value) => ({ value, label: MODES[value].label })),
+    },
+  ],
+  metrics: {
+    interference: '干扰效应(ms)',
+    congruentRt: '一致反应时(ms)',
+    incongruentRt: '不一致反应时(ms)',
+    congruentAccuracy: '一致正确率(%)',
+    incongruentAccuracy: '不一致正确率(%)',
+    emotionalInterference: '情绪干扰(ms)',
+    neutralRt: '中性词反应时(ms)',
+    emotionalRt: '情绪词反应时(ms)',
+    neutralAccuracy: '中性词正确率(%)',
+    emotionalAccuracy: '情绪词正确率(%)',
+    postErrorSlowing: '错误后减慢(ms)',
+    timingError: '计时误差(ms)',
+  },
+  adaptive: {
+    parameter: '作答时限',
+    maxLevel: () => ADAPTIVE.maxLevel,
+    describe: (level) => `${Math.round(responseDeadline(level))} ms`,
+  },
+  intro: {
+    title: '执行功能',
+    content:
+      '执行功能是大脑的"指挥官"，负责计划、决策和行为控制。Stroop 效应揭示了自动化加工与主动控制之间的冲突——通过训练抑制控制能力，可以增强前额叶的执行功能。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '执行功能是"大脑的CEO"',
+      content:
+        '执行功能负责计划、组织、灵活切换和抑制冲动，由前额叶皮层主导。从20多岁开始缓慢衰退，但可通过训练保持和增强。',
+    },
+    {
+      id: 2,
+      title: '双语或学习新语言',
+      content:
+        '学习和使用两种语言需要不断在语言间切换和抑制，这是对执行功能的绝佳训练。研究发现，双语者的认知障碍发病平均延迟4-5年。',
+    },
+    {
+      id: 3,
+      title: '规律有氧运动增强执行功能',
+      content:
+        '有氧运动能增加前额叶的血流量和神经连接，显著改善执行功能。每次运动30分钟，每周至少3次。',
+    },
+    {
+      id: 4,
+      title: '减少"自动驾驶"模式',
+      content:
+        '日常中有意改变习惯路线、用非惯用手刷牙等，可以打破自动化行为，激活前额叶执行控制系统。',
+    },
+    {
+      id: 5,
+      title: '戒烟限酒保护前额叶',
+      content:
+        '长期吸烟和过量饮酒会损伤前额叶功能。戒烟后认知功能可逐步恢复；建议男性每日酒精摄入不超过25g。',
+    },
+    {
+      id: 6,
+      title: '音乐训练增强抑制控制',
+      content:
+        '学习乐器需要协调视觉、听觉和运动，同时抑制无关信息。音乐训练已被证实能提升各年龄段人群的执行功能。',
+    },
+  ],
+})
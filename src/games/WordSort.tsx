@@ -1,8 +1,21 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { FixedDifficulty, GameOptions, GameProgress, InputModality, TrialInput } from '../types'
+import { respondedTrial } from '../utils/trials'
+import { Rng } from '../utils/random'
+import { GameClock } from '../utils/clock'
+import { optionIndexFromKey, useKeyboard } from '../utils/keyboard'
+import { BUILT_IN_BANKS, CUSTOM_BANK_ID, Familiarity, resolveWordBank, WordBank, WordEntry } from '../utils/wordBank'
+import WordBankSettings from '../components/WordBankSettings'
+import { defineGame } from './registry'
 
 interface Props {
   difficulty: 'easy' | 'normal' | 'hard'
+  options: GameOptions
+  rng: Rng
+  clock: GameClock
   onComplete: (score: number) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
 
 interface WordItem {
@@ -10,52 +23,46 @@ interface WordItem {
   category: string
 }
 
-const WORD_BANK: Record<string, string[]> = {
-  '健康饮食': ['深海鱼', '核桃', '蓝莓', '绿叶蔬菜', '全谷物', '橄榄油', '三文鱼', '牛油果'],
-  '运动锻炼': ['散步', '太极拳', '游泳', '广场舞', '瑜伽', '骑行', '慢跑', '爬山'],
-  '认知训练': ['下棋', '阅读', '学外语', '拼图', '书法', '数独', '弹琴', '编织'],
-  '社交活动': ['聚会', '志愿服务', '兴趣小组', '家庭聚餐', '社区活动', '旅行', '合唱团', '跳舞'],
-  '情绪管理': ['冥想', '深呼吸', '听音乐', '写日记', '园艺', '绘画', '宠物陪伴', '正念练习'],
-  '睡眠健康': ['规律作息', '午休', '避免咖啡因', '睡前放松', '安静环境', '热水泡脚', '远离手机', '适宜温度'],
-}
-
+/** maxFamiliarity：可出的最低熟悉度，简单难度只出日常常用词 */
 const DIFFICULTY_SETTINGS = {
-  easy:   { categoryCount: 2, wordsPerCategory: 6, timeLimit: null },
-  normal: { categoryCount: 3, wordsPerCategory: 6, timeLimit: 90 },
-  hard:   { categoryCount: 4, wordsPerCategory: 6, timeLimit: 60 },
+  easy:   { categoryCount: 2, wordsPerCategory: 6, timeLimit: null, maxFamiliarity: 1 },
+  normal: { categoryCount: 3, wordsPerCategory: 6, timeLimit: 90, maxFamiliarity: 2 },
+  hard:   { categoryCount: 4, wordsPerCategory: 6, timeLimit: 60, maxFamiliarity: 3 },
 } as const
 
-function shuffle<T>(array: T[]): T[] {
-  const arr = [...array]
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[arr[i], arr[j]] = [arr[j], arr[i]]
-  }
-  return arr
+/** 先取熟悉度允许范围内的词，不够时按熟悉度从高到低补足 */
+function pickWords(words: WordEntry[], count: number, maxFamiliarity: Familiarity, rng: Rng): string[] {
+  const shuffled = rng.shuffle(words)
+  const allowed = shuffled.filter(w => w.familiarity <= maxFamiliarity)
+  const extra = shuffled.filter(w => w.familiarity > maxFamiliarity).sort((a, b) => a.familiarity - b.familiarity)
+  return [...allowed, ...extra].slice(0, count).map(w => w.text)
 }
 
-function initGame(categoryCount: number, wordsPerCategory: number) {
-  const allCategories = Object.keys(WORD_BANK)
-  const selectedCategories = shuffle(allCategories).slice(0, categoryCount)
+function initGame(bank: WordBank, settings: (typeof DIFFICULTY_SETTINGS)[FixedDifficulty], rng: Rng) {
+  const { categoryCount, wordsPerCategory, maxFamiliarity } = settings
+  // 熟悉词够数的类别优先入选；自定义词库的类别数可能少于设定
+  const enough = (words: WordEntry[]) => words.filter(w => w.familiarity <= maxFamiliarity).length >= wordsPerCategory
+  const shuffled = rng.shuffle(bank.categories)
+  const selectedCategories = [...shuffled.filter(c => enough(c.words)), ...shuffled.filter(c => !enough(c.words))]
+    .slice(0, categoryCount)
 
   const words: WordItem[] = []
   for (const category of selectedCategories) {
-    const selectedWords = shuffle(WORD_BANK[category]).slice(0, wordsPerCategory)
-    for (const text of selectedWords) {
-      words.push({ text, category })
+    for (const text of pickWords(category.words, wordsPerCategory, maxFamiliarity, rng)) {
+      words.push({ text, category: category.name })
     }
   }
 
   return {
-    categories: selectedCategories,
-    words: shuffle(words),
+    categories: selectedCategories.map(c => c.name),
+    words: rng.shuffle(words),
   }
 }
 
-export default function WordSort({ difficulty, onComplete }: Props) {
+export default function WordSort({ difficulty, options, rng, clock, onComplete, onTrial, onProgress }: Props) {
   const settings = DIFFICULTY_SETTINGS[difficulty]
 
-  const [gameState] = useState(() => initGame(settings.categoryCount, settings.wordsPerCategory))
+  const [gameState] = useState(() => initGame(resolveWordBank(options.bank), settings, rng))
   const gameCategories = gameState.categories
   const gameWords = gameState.words
 
@@ -74,9 +81,15 @@ export default function WordSort({ difficulty, onComplete }: Props) {
   const isProcessing = useRef(false)
   const gameOverRef = useRef(false)
   const completedRef = useRef(false)
+  const wordShownAt = useRef(Date.now())
 
   const totalCount = gameWords.length
 
+  // 上报进度，中途退出时据此保存
+  useEffect(() => {
+    onProgress({ round: currentIndex, total: totalCount, score: Math.max(0, score) })
+  }, [currentIndex, totalCount, score, onProgress])
+
   // Timer countdown for normal and hard modes
   useEffect(() => {
     if (timeLeft === null || gameOverRef.current) return
@@ -87,7 +100,7 @@ export default function WordSort({ difficulty, onComplete }: Props) {
       return
     }
 
-    const interval = setInterval(() => {
+    const interval = clock.setInterval(() => {
       setTimeLeft(prev => {
         if (prev === null) return null
         if (prev <= 1) {
@@ -97,8 +110,8 @@ export default function WordSort({ difficulty, onComplete }: Props) {
       })
     }, 1000)
 
-    return () => clearInterval(interval)
-  }, [timeLeft])
+    return () => clock.clearInterval(interval)
+  }, [timeLeft, clock])
 
   // Handle game over from timer
   useEffect(() => {
@@ -123,16 +136,18 @@ export default function WordSort({ difficulty, onComplete }: Props) {
       setGameOver(true)
     } else {
       setCurrentIndex(nextIndex)
+      wordShownAt.current = Date.now()
     }
   }, [currentIndex, totalCount])
 
-  const handleCategoryClick = useCallback((selectedCategory: string) => {
+  const handleCategoryClick = useCallback((selectedCategory: string, input: InputModality) => {
     if (isProcessing.current || gameOverRef.current || gameOver) return
     if (currentIndex >= totalCount) return
 
     isProcessing.current = true
     const currentWord = gameWords[currentIndex]
     const isCorrect = selectedCategory === currentWord.category
+    onTrial(respondedTrial(currentWord.text, wordShownAt.current, selectedCategory, isCorrect, input))
 
     if (isCorrect) {
       const newStreak = streak + 1
@@ -146,7 +161,7 @@ export default function WordSort({ difficulty, onComplete }: Props) {
       setCorrectCount(prev => prev + 1)
       setFeedback({ type: 'correct', selectedCategory })
 
-      setTimeout(() => {
+      clock.setTimeout(() => {
         setFeedback(null)
         advanceToNext()
         isProcessing.current = false
@@ -160,13 +175,21 @@ export default function WordSort({ difficulty, onComplete }: Props) {
         selectedCategory,
       })
 
-      setTimeout(() => {
+      clock.setTimeout(() => {
         setFeedback(null)
         advanceToNext()
         isProcessing.current = false
       }, 600)
     }
-  }, [currentIndex, totalCount, gameWords, streak, gameOver, advanceToNext])
+  }, [currentIndex, totalCount, gameWords, streak, gameOver, advanceToNext, onTrial, clock])
+
+  // 键盘：数字键选择对应位置的类别
+  useKeyboard(clock, (key) => {
+    const index = optionIndexFromKey(key, gameCategories.length)
+    if (index === null) return false
+    handleCategoryClick(gameCategories[index], 'keyboard')
+    return true
+  }, feedback === null && !gameOver)
 
   if (gameOver) {
     return null
@@ -211,7 +234,7 @@ export default function WordSort({ difficulty, onComplete }: Props) {
         className="wordsort-categories"
         style={{ gridTemplateColumns: gameCategories.length <= 2 ? '1fr' : '1fr 1fr' }}
       >
-        {gameCategories.map(category => {
+        {gameCategories.map((category, index) => {
           let className = 'wordsort-category'
           if (feedback) {
             if (feedback.type === 'correct' && feedback.selectedCategory === category) {
@@ -231,8 +254,9 @@ export default function WordSort({ difficulty, onComplete }: Props) {
             <button
               key={category}
               className={className}
-              onClick={() => handleCategoryClick(category)}
+              onClick={() => handleCategoryClick(category, 'pointer')}
             >
+              <kbd className="key-badge">{index + 1}</kbd>
               {category}
             </button>
           )
@@ -242,6 +266,84 @@ export default function WordSort({ difficulty, onComplete }: Props) {
       <div className="wordsort-progress">
         正确率: {currentIndex > 0 ? Math.round((correctCount / currentIndex) * 100) : 0}%
       </div>
+
+      <div className="key-hint">键盘：按数字键 1-{gameCategories.length} 选择类别</div>
     </div>
   )
 }
+
+const MAX_SCORE: Record<FixedDifficulty, number> = { easy: 180, normal: 270, hard: 360 }
+
+export const definition = defineGame({
+  id: 'wordSort',
+  name: '词语分类',
+  icon: '📝',
+  color: '#2ECC71',
+  domain: '语言能力',
+  description: '将词语归入正确分类',
+  howToPlay: '屏幕出现一个词语和多个分类选项，点击词语所属的正确分类即可得分。可选择脑健康、水果、工具、动物、地点等主题词库，也可导入自定义词库。',
+  prototype: '语义分类任务',
+  component: WordSort,
+  // 满分按内置词库计；自定义词库的词数因人而异，其成绩不计入能力分
+  maxScore: (difficulty) => MAX_SCORE[difficulty],
+  // 每词 10 分，每连对 3 个再加 15 分
+  perfectScore: (difficulty) => {
+    const { categoryCount, wordsPerCategory } = DIFFICULTY_SETTINGS[difficulty]
+    const words = categoryCount * wordsPerCategory
+    return words * 10 + Math.floor(words / 3) * 15
+  },
+  options: [
+    {
+      id: 'bank',
+      label: '词库',
+      choices: [
+        ...BUILT_IN_BANKS.map(({ id, bank }) => ({ value: id, label: bank.name })),
+        { value: CUSTOM_BANK_ID, label: '自定义', unscored: true },
+      ],
+    },
+  ],
+  settings: WordBankSettings,
+  intro: {
+    title: '语言能力',
+    content:
+      '语言能力不仅是沟通工具，更是思维的载体。语义分类能力反映了大脑组织和提取知识的效率。研究发现，保持阅读习惯和词汇学习可以有效维护语言认知功能。',
+  },
+  knowledge: [
+    {
+      id: 1,
+      title: '每天阅读15分钟',
+      content:
+        '长期阅读习惯能增强语义网络的丰富度和提取效率。即使每天只读15分钟，一年也能读完约20本书，持续滋养语言认知。',
+    },
+    {
+      id: 2,
+      title: '写日记锻炼语言表达',
+      content:
+        '每天写几句日记，记录当天的事件和感受，是同时训练语言组织、记忆提取和自我觉察的好方法。',
+    },
+    {
+      id: 3,
+      title: '命名困难不等于"老糊涂"',
+      content:
+        '偶尔想不起某个词是正常的语言提取现象，随年龄增长逐渐增多，不一定是认知障碍。但若频繁出现，建议就医评估。',
+    },
+    {
+      id: 4,
+      title: '朗读和复述',
+      content:
+        '大声朗读和向他人复述故事情节，涉及语言理解、信息整合和语言产出的完整链条，是全面锻炼语言认知的有效方式。',
+    },
+    {
+      id: 5,
+      title: '学习新词汇',
+      content:
+        '词汇量是少数随年龄持续增长的认知能力之一。保持好奇心，学习新词汇和新知识，能扩展语义网络，增强认知储备。',
+    },
+    {
+      id: 6,
+      title: '社交对话比独处更有益',
+      content:
+        '与不同的人交谈，需要理解对方意图、组织回应、运用社交语言——这是一种综合性的语言认知训练。',
+    },
+  ],
+})
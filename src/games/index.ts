@@ -0,0 +1,87 @@
+import { definition as memory } from './MemoryMatch'
+import { definition as schulte } from './SchulteGrid'
+import { definition as stroop } from './StroopTest'
+import { definition as wordSort } from './WordSort'
+import { definition as pathMemory } from './PathMemory'
+import { definition as reaction } from './ReactionTest'
+import { definition as digitSpan } from './DigitSpan'
+import { definition as arithmetic } from './ArithmeticChallenge'
+import { definition as patternReason } from './PatternReason'
+import type { GameDefinition } from './registry'
+import { DIFFICULTIES, FIXED_DIFFICULTIES } from '../types'
+import type { Difficulty, GameOptions } from '../types'
+
+export type { GameDefinition, GameOptionDef, GameSettingsProps } from './registry'
+
+/**
+ * 游戏注册表：新增游戏时实现组件并导出 definition，再在此处登记一行。
+ * 顺序即菜单、雷达图轴和结果列表中的顺序。
+ */
+const REGISTRY = [
+  memory,
+  schulte,
+  stroop,
+  wordSort,
+  pathMemory,
+  reaction,
+  digitSpan,
+  arithmetic,
+  patternReason,
+] as const
+
+export type GameId = (typeof REGISTRY)[number]['id']
+
+export const GAMES: readonly GameDefinition<GameId>[] = REGISTRY
+
+const GAME_MAP = new Map<string, GameDefinition<GameId>>(GAMES.map(g => [g.id, g]))
+
+export function getGame(id: GameId): GameDefinition<GameId> {
+  return GAME_MAP.get(id)!
+}
+
+/** 导入数据等外部来源的游戏 id 需要先校验 */
+export function isGameId(value: unknown): value is GameId {
+  return typeof value === 'string' && GAME_MAP.has(value)
+}
+
+/** 满分因玩法而异时需传入选项，缺省按各选项的默认值计 */
+export function getMaxScore(gameId: GameId, difficulty: Difficulty, options: GameOptions = {}): number {
+  const game = getGame(gameId)
+  if (difficulty !== 'adaptive') return game.maxScore(difficulty, options)
+  if (!game.adaptive) throw new Error(`${game.name}不支持自适应难度`)
+  return game.adaptive.maxLevel(options)
+}
+
+/** 某游戏可选的难度 */
+export function getDifficulties(gameId: GameId): Difficulty[] {
+  return getGame(gameId).adaptive ? DIFFICULTIES : FIXED_DIFFICULTIES
+}
+
+/**
+ * 玩法选项的规范化键，如 "mode=backward;presentation=visual"：按登记顺序排列并补全默认值，
+ * 早期没有选项的成绩与默认玩法同键，未登记的键不参与；没有选项的游戏为空串
+ */
+export function optionsKey(gameId: GameId, options: GameOptions = {}): string {
+  const defs = getGame(gameId).options ?? []
+  return defs.map(d => `${d.id}=${options[d.id] ?? d.choices[0].value}`).join(';')
+}
+
+/** 这次玩法的成绩能否计入能力分和难度推荐，见 GameOptionDef 的 unscored */
+export function isScoredPlay(gameId: GameId, options: GameOptions = {}): boolean {
+  const defs = getGame(gameId).options ?? []
+  return !defs.some(d => d.choices.find(c => c.value === (options[d.id] ?? d.choices[0].value))?.unscored)
+}
+
+/** 成绩表中的槽位键，如 "hard|mode=backward;presentation=visual"；没有选项的游戏只用难度 */
+export function scoreSlot(gameId: GameId, difficulty: Difficulty, options?: GameOptions): string {
+  const key = optionsKey(gameId, options)
+  return key === '' ? difficulty : `${difficulty}|${key}`
+}
+
+/** 选项的中文描述，如 "顺背 · 听数字"；未登记的键和取值原样保留 */
+export function describeOptions(gameId: GameId, options: GameOptions): string {
+  const defs = getGame(gameId).options ?? []
+  return Object.entries(options)
+    .map(([id, value]) => defs.find(d => d.id === id)?.choices.find(c => c.value === value)?.label ?? value)
+    .join(' · ')
+}
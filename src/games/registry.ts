@@ -0,0 +1,73 @@
+import type { ComponentType } from 'react'
+import type { FixedDifficulty, GameOptions, GameProps } from '../types'
+import type { GameIntro, KnowledgeCard } from '../data/knowledge'
+
+/** 支持自适应难度的游戏登记的阶梯信息 */
+export interface AdaptiveInfo {
+  /** 阶梯调节的关键参数，如"数字位数" */
+  parameter: string
+  /** 等级上限，阈值按此折算能力分；上限因玩法而异时按选项计算 */
+  maxLevel: (options: GameOptions) => number
+  /** 把阈值等级换算为参数的实际取值，如 "6.5 位"、"520 ms" */
+  describe: (level: number) => string
+}
+
+/** 难度之外的玩法选项，如数字广度的顺背 / 倒背 */
+export interface GameOptionDef {
+  id: string
+  label: string
+  /**
+   * 第一项为默认值。unscored 的取值（如自定义词库）各人内容不同、满分无从确定，
+   * 其成绩不计入能力分和难度推荐
+   */
+  choices: { value: string; label: string; unscored?: boolean }[]
+}
+
+/** 游戏自带的设置面板收到的属性，如词语分类导入自定义词库 */
+export interface GameSettingsProps {
+  /** 当前选中的玩法选项 */
+  options: GameOptions
+  /** 设置未完成（如选了自定义词库却还没导入）时传 false，难度按钮随之禁用 */
+  onReadyChange: (ready: boolean) => void
+  /** 面板补充的选项，随本局记录一起保存，如自定义词库的名称；不参与满分和成绩分组 */
+  onExtraOptionsChange: (extra: GameOptions) => void
+}
+
+interface GameInfo<Id extends string> {
+  id: Id
+  name: string
+  icon: string
+  color: string
+  /** 训练的认知域，同时作为雷达图的轴标签 */
+  domain: string
+  description: string
+  howToPlay: string
+  /** 改编自的临床范式，显示在"关于"页 */
+  prototype: string
+  /** 各固定难度的满分，用于折算能力分；不同玩法量纲不同时按选项区分 */
+  maxScore: (difficulty: FixedDifficulty, options: GameOptions) => number
+  /**
+   * 熟练玩家全部答对时的得分，按用时计分的部分按熟练者的速度估计；
+   * 用于核对满分确实达得到，见 recommend.ts
+   */
+  perfectScore: (difficulty: FixedDifficulty, options: GameOptions) => number
+  /** 可选的玩法选项，在难度选择中展示 */
+  options?: GameOptionDef[]
+  /** 玩法选项之外的设置面板，显示在难度选择的选项下方 */
+  settings?: ComponentType<GameSettingsProps>
+  /** 游戏上报的额外指标的名称，键与 GameMetrics 一致 */
+  metrics?: Record<string, string>
+  intro: GameIntro
+  knowledge: KnowledgeCard[]
+}
+
+/** 一个游戏向应用登记的全部信息，菜单、结果页、雷达图等都由此派生 */
+export type GameDefinition<Id extends string = string> = GameInfo<Id> & (
+  | { adaptive: AdaptiveInfo; component: ComponentType<GameProps> }
+  | { adaptive?: undefined; component: ComponentType<GameProps<FixedDifficulty>> }
+)
+
+/** 保留字面量 id 类型，GameId 由注册表中的 id 推导 */
+export function defineGame<Id extends string>(definition: GameDefinition<Id>): GameDefinition<Id> {
+  return definition
+}
@@ -1,121 +1,120 @@
-export type GameId = 'memory' | 'schulte' | 'stroop' | 'wordSort' | 'pathMemory' | 'reaction' | 'digitSpan' | 'arithmetic' | 'patternReason'
-export type Difficulty = 'easy' | 'normal' | 'hard'
-export type Page = 'menu' | 'game' | 'result' | 'history'
-
-export interface Scores {
-  memory: number | null
-  schulte: number | null
-  stroop: number | null
-  wordSort: number | null
-  pathMemory: number | null
-  reaction: number | null
-  digitSpan: number | null
-  arithmetic: number | null
-  patternReason: number | null
+import type { GameId } from './games'
+import type { Rng } from './utils/random'
+import type { GameClock } from './utils/clock'
+
+export type { GameId }
+/** 固定难度：每局参数不变 */
+export type FixedDifficulty = 'easy' | 'normal' | 'hard'
+/** adaptive：局内按阶梯法调整关键参数，得分为收敛阈值，只有部分游戏支持 */
+export type Difficulty = FixedDifficulty | 'adaptive'
+export type Page = 'profiles' | 'menu' | 'game' | 'result' | 'history'
+
+export const FIXED_DIFFICULTIES: FixedDifficulty[] = ['easy', 'normal', 'hard']
+
+export const DIFFICULTIES: Difficulty[] = [...FIXED_DIFFICULTIES, 'adaptive']
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = { easy: '简单', normal: '普通', hard: '困难', adaptive: '自适应' }
+
+export type Education = 'primary' | 'secondary' | 'tertiary'
+
+export const EDUCATION_LABELS: Record<Education, string> = {
+  primary: '小学及以下',
+  secondary: '初中/高中',
+  tertiary: '大专及以上',
 }
 
-export interface GameConfig {
-  id: GameId
+/** 同一设备上的用户档案，训练记录和成绩按档案隔离 */
+export interface Profile {
+  id: string
   name: string
-  icon: string
-  color: string
-  domain: string
-  description: string
-  howToPlay: string
+  avatar: string
+  birthYear: number | null
+  education: Education | null
+  createdAt: number
+}
+
+/** 某个游戏在某个难度下的一次成绩 */
+export interface ScoreEntry {
+  difficulty: Difficulty
+  score: number
+  timestamp: number
+  /** 这次成绩的玩法选项，决定满分；早期成绩没有此字段 */
+  options?: GameOptions
+}
+
+/** 按 (游戏, 难度, 玩法) 存放的成绩表，用于最高分和最近一次成绩；槽位键由 scoreSlot 生成 */
+export type ScoreTable = Record<GameId, Partial<Record<string, ScoreEntry>>>
+
+/** 单个试次的作答事件，所有游戏统一上报 */
+export interface TrialEvent {
+  /** 本局内从 0 开始的试次序号 */
+  trial: number
+  /** 呈现的刺激，如 "红色/蓝色"、"3-8-1" */
+  stimulus: string
+  /** 被试的作答，未作答为 null */
+  response: string | null
+  /** 是否正确，无对错之分时为 null */
+  correct: boolean | null
+  /** 反应时 (ms)，未作答为 null */
+  latency: number | null
+  /** 刺激出现时刻 (epoch ms) */
+  stimulusAt: number
+  /** 作答时刻 (epoch ms)，未作答为 null */
+  responseAt: number | null
+  /** 作答方式，未作答或早期记录为 null */
+  input: InputModality | null
 }
 
-export const GAMES: GameConfig[] = [
-  {
-    id: 'memory',
-    name: '记忆翻翻乐',
-    icon: '🧠',
-    color: '#9B59B6',
-    domain: '记忆力',
-    description: '翻牌配对，训练短时记忆',
-    howToPlay: '点击卡片翻开，找到两张相同的卡片即可配对。用最少的步数完成所有配对。',
-  },
-  {
-    id: 'schulte',
-    name: '舒尔特方格',
-    icon: '🎯',
-    color: '#3498DB',
-    domain: '注意力',
-    description: '按顺序点击数字，训练视觉搜索',
-    howToPlay: '在方格中按从小到大的顺序依次点击数字，用时越短得分越高。',
-  },
-  {
-    id: 'stroop',
-    name: '颜色词挑战',
-    icon: '🎨',
-    color: '#E74C3C',
-    domain: '执行功能',
-    description: '判断文字墨色，训练抑制控制',
-    howToPlay: '屏幕会显示一个颜色词（如"红色"），但字的颜色和词义不同。请选择文字实际显示的颜色，而非文字含义。',
-  },
-  {
-    id: 'wordSort',
-    name: '词语分类',
-    icon: '📝',
-    color: '#2ECC71',
-    domain: '语言能力',
-    description: '将词语归入正确分类',
-    howToPlay: '屏幕出现一个词语和多个分类选项，点击词语所属的正确分类即可得分。',
-  },
-  {
-    id: 'pathMemory',
-    name: '路径记忆',
-    icon: '🗺️',
-    color: '#F39C12',
-    domain: '视空间',
-    description: '记忆并复现亮起路径',
-    howToPlay: '观察格子依次亮起的顺序，然后按相同顺序点击格子复现路径。每轮成功后路径会更长。',
-  },
-  {
-    id: 'reaction',
-    name: '闪电反应',
-    icon: '⚡',
-    color: '#E67E22',
-    domain: '处理速度',
-    description: '信号出现立即点击，测试反应速度',
-    howToPlay: '等待圆圈变绿后立即点击。注意不要在变绿之前误触，否则本轮不计分。',
-  },
-  {
-    id: 'digitSpan',
-    name: '数字倒背',
-    icon: '🔢',
-    color: '#1ABC9C',
-    domain: '工作记忆',
-    description: '记住数字序列并倒序输入',
-    howToPlay: '屏幕依次显示一串数字，记住后倒序输入（如看到 1-2-3，输入 3-2-1）。连续两次错误则结束。',
-  },
-  {
-    id: 'arithmetic',
-    name: '心算挑战',
-    icon: '🧮',
-    color: '#8E44AD',
-    domain: '计算能力',
-    description: '限时心算，锻炼数字加工能力',
-    howToPlay: '在限定时间内完成尽可能多的算术题，从四个选项中选出正确答案。连续答对有额外加分。',
-  },
-  {
-    id: 'patternReason',
-    name: '图形推理',
-    icon: '🔷',
-    color: '#2C3E50',
-    domain: '推理判断',
-    description: '找出图形序列的规律',
-    howToPlay: '观察图形序列的变化规律，从选项中选出最合适的下一个图形。快速作答有额外加分。',
-  },
-]
-
-export const MAX_SCORES: Record<GameId, Record<Difficulty, number>> = {
-  memory:        { easy: 300,  normal: 600,  hard: 920 },
-  schulte:       { easy: 800,  normal: 800,  hard: 800 },
-  stroop:        { easy: 600,  normal: 800,  hard: 800 },
-  wordSort:      { easy: 400,  normal: 600,  hard: 800 },
-  pathMemory:    { easy: 1050, normal: 2250, hard: 2450 },
-  reaction:      { easy: 800,  normal: 800,  hard: 800 },
-  digitSpan:     { easy: 600,  normal: 1200, hard: 2000 },
-  arithmetic:    { easy: 500,  normal: 800,  hard: 1000 },
-  patternReason: { easy: 500,  normal: 800,  hard: 1000 },
+/** 作答方式：鼠标 / 触屏，或键盘 */
+export type InputModality = 'pointer' | 'keyboard'
+
+/** 游戏上报的试次事件，序号由 GameWrapper 统一编号 */
+export type TrialInput = Omit<TrialEvent, 'trial'>
+
+/** 暂停原因：手动、切到后台、窗口失去焦点 */
+export type PauseReason = 'manual' | 'hidden' | 'blur'
+
+export const PAUSE_REASON_LABELS: Record<PauseReason, string> = {
+  manual: '手动暂停',
+  hidden: '切到后台',
+  blur: '窗口失焦',
+}
+
+/** 一局中的一次中断 */
+export interface Interruption {
+  reason: PauseReason
+  /** 开始时刻 (epoch ms) */
+  start: number
+  /** 持续时长 (ms) */
+  duration: number
+}
+
+/** 游戏随时上报的进度，中途退出时据此保存未完成的记录 */
+export interface GameProgress {
+  /** 已完成的轮数（题数、试次或关卡，含义因游戏而异） */
+  round: number
+  /** 总轮数，不固定时为 null */
+  total: number | null
+  /** 当前得分 */
+  score: number
+}
+
+/** 游戏自定义选项的取值，键为选项 id，如 { mode: 'forward' } */
+export type GameOptions = Record<string, string>
+
+/** 游戏结束时额外上报的指标，键为指标 id，如 { maxSpan: 7 } */
+export type GameMetrics = Record<string, number>
+
+/** 所有游戏组件接收的统一属性；不支持自适应的游戏只会收到固定难度 */
+export interface GameProps<D extends Difficulty = Difficulty> {
+  difficulty: D
+  /** 难度之外的玩法选项，未登记选项的游戏收到空对象 */
+  options: GameOptions
+  /** 本局的随机数源，所有刺激的随机性都应来自这里 */
+  rng: Rng
+  /** 本局的游戏时钟，计时器都应通过它创建，以便暂停 */
+  clock: GameClock
+  onComplete: (score: number, metrics?: GameMetrics) => void
+  onTrial: (event: TrialInput) => void
+  onProgress: (progress: GameProgress) => void
 }
@@ -0,0 +1,120 @@
+import { Interruption, PauseReason } from '../types'
+
+// ===== 游戏时钟：可暂停的计时器，暂停期间不计时、不触发回调 =====
+
+export type TimerId = number
+
+export interface GameClock {
+  /** 游戏时间 (ms)，暂停期间停止增长，只用于求时间差 */
+  now(): number
+  setTimeout(fn: () => void, ms: number): TimerId
+  setInterval(fn: () => void, ms: number): TimerId
+  clearTimeout(id: TimerId | null): void
+  clearInterval(id: TimerId | null): void
+  isPaused(): boolean
+  pause(reason: PauseReason): void
+  resume(): void
+  /** 暂停状态变化时通知，返回取消订阅函数 */
+  subscribe(listener: () => void): () => void
+  /** epoch ms 区间 [from, to] 内处于暂停的总时长，用于从反应时中扣除 */
+  pausedBetween(from: number, to: number): number
+  /** 已结束的中断，按发生顺序 */
+  interruptions(): Interruption[]
+}
+
+interface Timer {
+  fn: () => void
+  delay: number
+  repeat: boolean
+  /** 按游戏时间计的触发时刻 */
+  dueAt: number
+  handle: ReturnType<typeof setTimeout> | null
+}
+
+export function createGameClock(): GameClock {
+  const timers = new Map<TimerId, Timer>()
+  const listeners = new Set<() => void>()
+  const finished: Interruption[] = []
+  let nextId = 1
+  let pausedTotal = 0
+  let current: { reason: PauseReason; start: number; startPerf: number } | null = null
+
+  const now = () => {
+    const t = performance.now()
+    return t - pausedTotal - (current ? t - current.startPerf : 0)
+  }
+
+  const schedule = (id: TimerId, timer: Timer) => {
+    timer.handle = setTimeout(() => {
+      if (timer.repeat) {
+        timer.dueAt += timer.delay
+        schedule(id, timer)
+      } else {
+        timers.delete(id)
+      }
+      timer.fn()
+    }, Math.max(0, timer.dueAt - now()))
+  }
+
+  const add = (fn: () => void, ms: number, repeat: boolean) => {
+    const id = nextId++
+    const timer: Timer = { fn, delay: ms, repeat, dueAt: now() + ms, handle: null }
+    timers.set(id, timer)
+    if (!current) schedule(id, timer)
+    return id
+  }
+
+  const clear = (id: TimerId | null) => {
+    if (id === null) return
+    const timer = timers.get(id)
+    if (!timer) return
+    if (timer.handle !== null) clearTimeout(timer.handle)
+    timers.delete(id)
+  }
+
+  const notify = () => listeners.forEach((listener) => listener())
+
+  return {
+    now,
+    setTimeout: (fn, ms) => add(fn, ms, false),
+    setInterval: (fn, ms) => add(fn, ms, true),
+    clearTimeout: clear,
+    clearInterval: clear,
+    isPaused: () => current !== null,
+
+    pause(reason) {
+      if (current) return
+      current = { reason, start: Date.now(), startPerf: performance.now() }
+      for (const timer of timers.values()) {
+        if (timer.handle !== null) clearTimeout(timer.handle)
+        timer.handle = null
+      }
+      notify()
+    },
+
+    resume() {
+      if (!current) return
+      const duration = performance.now() - current.startPerf
+      pausedTotal += duration
+      finished.push({ reason: current.reason, start: current.start, duration: Math.round(duration) })
+      current = null
+      for (const [id, timer] of timers) schedule(id, timer)
+      notify()
+    },
+
+    subscribe(listener) {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    pausedBetween(from, to) {
+      const spans = finished.map((i) => [i.start, i.start + i.duration])
+      if (current) spans.push([current.start, Date.now()])
+      return spans.reduce((sum, [start, end]) => sum + Math.max(0, Math.min(end, to) - Math.max(start, from)), 0)
+    },
+
+    interruptions: () => [...finished],
+  }
+}
@@ -0,0 +1,225 @@
+// ===== 持久化后端：IndexedDB，不可用时退回内存 =====
+
+export type StoreName = 'records' | 'trials' | 'scores' | 'meta' | 'profiles' | 'snapshots'
+
+export interface StorageBackend {
+  getAll<T>(store: StoreName): Promise<T[]>
+  /** 按索引字段取值相等的全部条目 */
+  getAllBy<T>(store: StoreName, index: string, value: string): Promise<T[]>
+  get<T>(store: StoreName, key: string): Promise<T | undefined>
+  put<T>(store: StoreName, value: T): Promise<void>
+  delete(store: StoreName, key: string): Promise<void>
+  clear(store: StoreName): Promise<void>
+}
+
+export const DB_NAME = 'cogpark'
+export const DB_VERSION = 3
+
+/** v2 之前的数据不分用户，升级时统一归入此档案 */
+export const LEGACY_PROFILE_ID = 'default'
+export const LEGACY_PROFILE_NAME = '默认用户'
+
+export const STORE_KEYS: Record<StoreName, string> = {
+  records: 'id',
+  trials: 'recordId',
+  scores: 'key',
+  meta: 'key',
+  profiles: 'id',
+  snapshots: 'id',
+}
+
+/**
+ * 结构迁移：MIGRATIONS[i] 把数据库从版本 i 升级到 i + 1。
+ * 只允许在末尾追加，已发布的迁移不可修改。
+ */
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v0 → v1：初始结构
+  (db) => {
+    const records = db.createObjectStore('records', { keyPath: STORE_KEYS.records })
+    records.createIndex('timestamp', 'timestamp')
+    records.createIndex('gameId', 'gameId')
+    db.createObjectStore('trials', { keyPath: STORE_KEYS.trials })
+    db.createObjectStore('scores', { keyPath: STORE_KEYS.scores })
+    db.createObjectStore('meta', { keyPath: STORE_KEYS.meta })
+  },
+  // v1 → v2：多用户档案，已有记录和成绩归入默认档案
+  (db, tx) => {
+    db.createObjectStore('profiles', { keyPath: STORE_KEYS.profiles })
+    const records = tx.objectStore('records')
+    records.createIndex('profileId', 'profileId')
+
+    const scores = tx.objectStore('scores')
+    let hasData = false
+
+    const createLegacyProfile = () => {
+      if (!hasData) return
+      tx.objectStore('profiles').put({
+        id: LEGACY_PROFILE_ID, name: LEGACY_PROFILE_NAME, avatar: '🙂',
+        birthYear: null, education: null, createdAt: Date.now(),
+      })
+    }
+
+    // 成绩表的键从 "best" 改为 "<档案 id>:best"
+    const migrateScores = () => {
+      scores.openCursor().onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result
+        if (!cursor) return createLegacyProfile()
+        const key = cursor.value.key as string
+        if (!key.includes(':')) {
+          hasData = true
+          scores.put({ ...cursor.value, key: `${LEGACY_PROFILE_ID}:${key}` })
+          cursor.delete()
+        }
+        cursor.continue()
+      }
+    }
+
+    records.openCursor().onsuccess = (e) => {
+      const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result
+      if (!cursor) return migrateScores()
+      hasData = true
+      cursor.update({ ...cursor.value, profileId: LEGACY_PROFILE_ID })
+      cursor.continue()
+    }
+  },
+  // v2 → v3：认知画像快照
+  (db) => {
+    const snapshots = db.createObjectStore('snapshots', { keyPath: STORE_KEYS.snapshots })
+    snapshots.createIndex('profileId', 'profileId')
+  },
+]
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const blockedListeners = new Set<(blocked: boolean) => void>()
+let upgradeBlocked = false
+
+function setUpgradeBlocked(blocked: boolean) {
+  if (blocked === upgradeBlocked) return
+  upgradeBlocked = blocked
+  blockedListeners.forEach((listener) => listener(blocked))
+}
+
+/**
+ * 升级数据库时若其他标签页仍开着旧版本，打开会一直等到对方关闭。
+ * 订阅此状态以提示用户关闭其他标签页，返回取消订阅函数
+ */
+export function subscribeUpgradeBlocked(listener: (blocked: boolean) => void): () => void {
+  blockedListeners.add(listener)
+  listener(upgradeBlocked)
+  return () => {
+    blockedListeners.delete(listener)
+  }
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const tx = request.transaction!
+      for (let v = event.oldVersion; v < DB_VERSION; v++) {
+        MIGRATIONS[v](db, tx)
+      }
+    }
+    request.onsuccess = () => {
+      setUpgradeBlocked(false)
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      setUpgradeBlocked(false)
+      reject(request.error)
+    }
+    // 不退回内存后端，否则本次训练数据会在刷新后丢失；对方关闭后 onsuccess 照常触发
+    request.onblocked = () => setUpgradeBlocked(true)
+  })
+}
+
+export function createIndexedDBBackend(db: IDBDatabase): StorageBackend {
+  const store = (name: StoreName, mode: IDBTransactionMode) =>
+    db.transaction(name, mode).objectStore(name)
+
+  const write = (name: StoreName, action: (s: IDBObjectStore) => IDBRequest) =>
+    new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(name, 'readwrite')
+      action(tx.objectStore(name))
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+
+  return {
+    getAll: (name) => promisify(store(name, 'readonly').getAll()),
+    getAllBy: (name, index, value) => promisify(store(name, 'readonly').index(index).getAll(value)),
+    get: (name, key) => promisify(store(name, 'readonly').get(key)),
+    put: (name, value) => write(name, s => s.put(value)),
+    delete: (name, key) => write(name, s => s.delete(key)),
+    clear: (name) => write(name, s => s.clear()),
+  }
+}
+
+/** 内存后端：用于测试和无法使用 IndexedDB 的隐私模式，刷新后数据即丢失 */
+export function createMemoryBackend(): StorageBackend {
+  const stores = new Map<StoreName, Map<string, unknown>>()
+  const table = (name: StoreName) => {
+    if (!stores.has(name)) stores.set(name, new Map())
+    return stores.get(name)!
+  }
+  // 与 IndexedDB 一样按值拷贝，避免调用方修改已存对象
+  const clone = <T>(value: T): T => structuredClone(value)
+
+  return {
+    async getAll<T>(name: StoreName) {
+      return [...table(name).values()].map(v => clone(v as T))
+    },
+    async getAllBy<T>(name: StoreName, index: string, value: string) {
+      return [...table(name).values()]
+        .filter(v => (v as Record<string, unknown>)[index] === value)
+        .map(v => clone(v as T))
+    },
+    async get<T>(name: StoreName, key: string) {
+      const value = table(name).get(key) as T | undefined
+      return value === undefined ? undefined : clone(value)
+    },
+    async put<T>(name: StoreName, value: T) {
+      const key = (value as Record<string, unknown>)[STORE_KEYS[name]]
+      table(name).set(String(key), clone(value))
+    },
+    async delete(name: StoreName, key: string) {
+      table(name).delete(key)
+    },
+    async clear(name: StoreName) {
+      table(name).clear()
+    },
+  }
+}
+
+let backendPromise: Promise<StorageBackend> | null = null
+
+export function getBackend(): Promise<StorageBackend> {
+  if (!backendPromise) {
+    backendPromise = (async () => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('[storage] IndexedDB 不可用，训练数据仅保存在内存中')
+        return createMemoryBackend()
+      }
+      try {
+        return createIndexedDBBackend(await openDatabase())
+      } catch (err) {
+        console.warn('[storage] 打开 IndexedDB 失败，训练数据仅保存在内存中', err)
+        return createMemoryBackend()
+      }
+    })()
+  }
+  return backendPromise
+}
+
+/** 替换当前后端（测试中注入内存后端） */
+export function setBackend(backend: StorageBackend) {
+  backendPromise = Promise.resolve(backend)
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState } from 'react'
+import { GameClock } from './clock'
+
+// ===== 键盘作答：各游戏共用的按键监听和方格光标 =====
+
+/** 返回 true 表示已处理该按键，会阻止浏览器默认行为（如空格滚动页面、回车触发聚焦的按钮） */
+export type KeyHandler = (key: string, event: KeyboardEvent) => boolean
+
+/** 监听游戏中的按键；暂停、按住连发、带修饰键或焦点在输入框时忽略 */
+export function useKeyboard(clock: GameClock, handler: KeyHandler, enabled = true) {
+  // 始终调用最新的 handler，避免每次渲染都重新绑定监听
+  const handlerRef = useRef(handler)
+  useEffect(() => {
+    handlerRef.current = handler
+  })
+
+  useEffect(() => {
+    if (!enabled) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || clock.isPaused()) return
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if (handlerRef.current(e.key, e)) e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [clock, enabled])
+}
+
+/** 数字键 1-9 对应第 0-8 个选项，超出选项数时返回 null */
+export function optionIndexFromKey(key: string, count: number): number | null {
+  if (!/^[1-9]$/.test(key)) return null
+  const index = Number(key) - 1
+  return index < count ? index : null
+}
+
+/** 数字键 0-9（含小键盘）对应的数字 */
+export function digitFromKey(key: string): number | null {
+  return /^[0-9]$/.test(key) ? Number(key) : null
+}
+
+export type Direction = 'up' | 'down' | 'left' | 'right'
+
+const ARROW_KEYS: Record<string, Direction> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** 规则方格第 i 格的坐标 */
+export function gridPositions(count: number, columns: number): Point[] {
+  return Array.from({ length: count }, (_, i) => ({ x: i % columns, y: Math.floor(i / columns) }))
+}
+
+/**
+ * 沿方向移到最近的格子：只看该方向前方的格子，偏离方向的距离加倍计算。
+ * 规则方格和不规则布局（如 Corsi 积木板）都适用；前方没有格子时原地不动。
+ */
+export function moveCursor(positions: Point[], from: number, direction: Direction): number {
+  const origin = positions[from]
+  let best = from
+  let bestCost = Infinity
+  positions.forEach((p, i) => {
+    const dx = p.x - origin.x
+    const dy = p.y - origin.y
+    const horizontal = direction === 'left' || direction === 'right'
+    const along = direction === 'left' ? -dx : direction === 'right' ? dx : direction === 'up' ? -dy : dy
+    if (along <= 0) return
+    const cost = along + 2 * Math.abs(horizontal ? dy : dx)
+    if (cost < bestCost) {
+      best = i
+      bestCost = cost
+    }
+  })
+  return best
+}
+
+/**
+ * 方格类游戏的键盘光标：方向键移动，回车或空格选中当前格。
+ * 第一次按方向键前不显示光标（返回 null），不打扰只用鼠标或触屏的用户。
+ */
+export function useGridCursor(
+  clock: GameClock,
+  positions: Point[],
+  onSelect: (index: number) => void,
+  enabled = true,
+): number | null {
+  const [cursor, setCursor] = useState<number | null>(null)
+  // 格子数变化（如换关）时光标可能越界
+  const current = cursor !== null && cursor < positions.length ? cursor : null
+
+  useKeyboard(clock, (key) => {
+    const direction = ARROW_KEYS[key]
+    if (direction) {
+      setCursor(current === null ? 0 : moveCursor(positions, current, direction))
+      return true
+    }
+    if ((key === 'Enter' || key === ' ') && current !== null) {
+      onSelect(current)
+      return true
+    }
+    return false
+  }, enabled)
+
+  return current
+}
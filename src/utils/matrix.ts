@@ -0,0 +1,269 @@
+import { Rng } from './random'
+
+// ===== 瑞文式 3×3 矩阵：按行施加规则生成题目，干扰项各只违反一条规则 =====
+
+/** 图形的属性；count 同时决定图形在格内的摆放位置 */
+export type Attribute = 'shape' | 'count' | 'size' | 'color' | 'rotation'
+
+/**
+ * 每行内的规则：
+ * constant 三格相同；progression 逐格加一或减一；
+ * distribute 三个不同取值在各行中轮换出现；xor 第三格的位置是前两格位置的异或（仅用于 count）
+ */
+export type RuleType = 'constant' | 'progression' | 'distribute' | 'xor'
+
+export interface MatrixRule {
+  attribute: Attribute
+  type: RuleType
+}
+
+/** 一格的内容：count 个同样的图形，摆在 3×3 小格的 positions 上 */
+export interface Panel {
+  /** SHAPE_SIDES 的下标 */
+  shape: number
+  size: number
+  color: number
+  rotation: number
+  /** 占据的位置，3×3 小格的下标 0-8 */
+  positions: number[]
+}
+
+export interface MatrixOption {
+  panel: Panel
+  /** 干扰项违反的属性，正确答案为 null */
+  breaks: Attribute | null
+}
+
+export interface MatrixItem {
+  /** 前 8 格，按行排列，第 9 格为待填的答案 */
+  panels: Panel[]
+  options: MatrixOption[]
+  answerIndex: number
+  /** 全部属性的规则，未参与变化的属性为 constant */
+  rules: MatrixRule[]
+  /** 题目难度，即变化规则（非 constant）的条数 */
+  difficulty: number
+}
+
+/** 形状按边数排列，0 表示圆形；递变规则即逐格增减一条边 */
+export const SHAPE_SIDES = [3, 4, 5, 6, 0]
+const TRIANGLE = 0
+
+/** 各属性的取值个数 */
+const DOMAIN: Record<Attribute, number> = {
+  shape: SHAPE_SIDES.length,
+  count: 5,
+  size: 3,
+  color: 4,
+  rotation: 4,
+}
+
+/** count 取 1-5 时的标准摆放 */
+const COUNT_LAYOUTS = [[4], [3, 5], [1, 6, 8], [0, 2, 6, 8], [0, 2, 4, 6, 8]]
+/** xor 规则只在四个角上取位置 */
+const XOR_SLOTS = [0, 2, 6, 8]
+
+const ATTRIBUTES: Attribute[] = ['shape', 'count', 'size', 'color', 'rotation']
+
+const RULE_CHOICES: Record<Attribute, RuleType[]> = {
+  shape: ['progression', 'distribute'],
+  count: ['progression', 'distribute', 'xor'],
+  size: ['progression', 'distribute'],
+  color: ['progression', 'distribute'],
+  rotation: ['progression', 'distribute'],
+}
+
+/** 按行排列的 3×3 属性取值；count 的 xor 规则存的是四个角的位掩码 */
+type Grid = number[][]
+
+function constantRows(attribute: Attribute, rng: Rng, fixed: number | null): Grid {
+  return [0, 1, 2].map(() => {
+    const value = fixed ?? rng.int(0, DOMAIN[attribute] - 1)
+    return [value, value, value]
+  })
+}
+
+function progressionRows(attribute: Attribute, rng: Rng): Grid {
+  const n = DOMAIN[attribute]
+  const step = rng.chance(0.5) ? 1 : -1
+  return [0, 1, 2].map(() => {
+    const start = step > 0 ? rng.int(0, n - 3) : rng.int(2, n - 1)
+    return [start, start + step, start + 2 * step]
+  })
+}
+
+function distributeRows(attribute: Attribute, rng: Rng): Grid {
+  const values = rng.shuffle(Array.from({ length: DOMAIN[attribute] }, (_, i) => i)).slice(0, 3)
+  const shift = rng.chance(0.5) ? 1 : 2
+  return [0, 1, 2].map(row => [0, 1, 2].map(col => values[(col + row * shift) % 3]))
+}
+
+function xorRows(rng: Rng): Grid {
+  return [0, 1, 2].map(() => {
+    // 两格各不相同且都不为空，异或结果也不为空
+    for (;;) {
+      const a = rng.int(1, 15)
+      const b = rng.int(1, 15)
+      if (a !== b) return [a, b, a ^ b]
+    }
+  })
+}
+
+function maskPositions(mask: number): number[] {
+  return XOR_SLOTS.filter((_, i) => mask & (1 << i))
+}
+
+function positionsFor(rule: MatrixRule, value: number): number[] {
+  return rule.type === 'xor' ? maskPositions(value) : COUNT_LAYOUTS[value]
+}
+
+/**
+ * 挑选变化的属性：角度只对三角形可见（正方形等转 90° 与原图重合），
+ * 所以角度变化时形状固定为三角形，两者不同时变化。
+ */
+function pickRules(ruleCount: number, rng: Rng): MatrixRule[] {
+  const varying: Attribute[] = []
+  for (const attribute of rng.shuffle(ATTRIBUTES)) {
+    if (varying.length >= ruleCount) break
+    if (attribute === 'rotation' && varying.includes('shape')) continue
+    if (attribute === 'shape' && varying.includes('rotation')) continue
+    varying.push(attribute)
+  }
+  return ATTRIBUTES.map(attribute => ({
+    attribute,
+    type: varying.includes(attribute) ? rng.pick(RULE_CHOICES[attribute]) : 'constant',
+  }))
+}
+
+function buildGrid(rule: MatrixRule, rules: MatrixRule[], rng: Rng): Grid {
+  if (rule.type === 'progression') return progressionRows(rule.attribute, rng)
+  if (rule.type === 'distribute') return distributeRows(rule.attribute, rng)
+  if (rule.type === 'xor') return xorRows(rng)
+  // 角度不变时一律不旋转；角度变化时形状固定为三角形
+  if (rule.attribute === 'rotation') return constantRows('rotation', rng, 0)
+  const rotating = rules.some(r => r.attribute === 'rotation' && r.type !== 'constant')
+  if (rule.attribute === 'shape' && rotating) return constantRows('shape', rng, TRIANGLE)
+  return constantRows(rule.attribute, rng, null)
+}
+
+function samePanel(a: Panel, b: Panel): boolean {
+  return a.shape === b.shape && a.size === b.size && a.color === b.color && a.rotation === b.rotation &&
+    a.positions.join() === b.positions.join()
+}
+
+/** 把答案的某一个属性换成别的取值得到的全部干扰项；看不出差别的（非三角形的角度）不算 */
+function variantsOf(answer: Panel, rule: MatrixRule, answerMask: number): MatrixOption[] {
+  const { attribute } = rule
+  if (attribute === 'rotation' && answer.shape !== TRIANGLE) return []
+  if (attribute === 'count' && rule.type === 'xor') {
+    return Array.from({ length: 15 }, (_, i) => i + 1)
+      .filter(mask => mask !== answerMask)
+      .map(mask => ({ panel: { ...answer, positions: maskPositions(mask) }, breaks: attribute }))
+  }
+  const current = attribute === 'count' ? answer.positions.length - 1 : answer[attribute]
+  return Array.from({ length: DOMAIN[attribute] }, (_, i) => i)
+    .filter(value => value !== current)
+    .map(value => ({
+      panel: attribute === 'count'
+        ? { ...answer, positions: COUNT_LAYOUTS[value] }
+        : { ...answer, [attribute]: value },
+      breaks: attribute,
+    }))
+}
+
+/**
+ * 从单属性变体中选出干扰项：先让每个属性各出一个，不够再补，
+ * 这样干扰项尽量分散在不同规则上，不能只盯一个属性排除。
+ */
+function pickDistractors(variants: MatrixOption[][], count: number, rng: Rng): MatrixOption[] {
+  const pools = rng.shuffle(variants.filter(v => v.length > 0)).map(v => rng.shuffle(v))
+  const chosen: MatrixOption[] = []
+  while (chosen.length < count && pools.some(p => p.length > 0)) {
+    for (const pool of pools) {
+      const next = pool.shift()
+      if (next && chosen.length < count && !chosen.some(c => samePanel(c.panel, next.panel))) chosen.push(next)
+    }
+  }
+  return chosen
+}
+
+/** 生成一道题：ruleCount 为变化规则的条数（1-4），optionCount 为选项数 */
+export function generateMatrix(ruleCount: number, optionCount: number, rng: Rng): MatrixItem {
+  const rules = pickRules(ruleCount, rng)
+  const grids = new Map(rules.map(rule => [rule.attribute, buildGrid(rule, rules, rng)]))
+  const countRule = rules.find(r => r.attribute === 'count')!
+
+  const cells: Panel[] = []
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      const value = (attribute: Attribute) => grids.get(attribute)![row][col]
+      cells.push({
+        shape: value('shape'),
+        size: value('size'),
+        color: value('color'),
+        rotation: value('rotation'),
+        positions: positionsFor(countRule, value('count')),
+      })
+    }
+  }
+
+  const answer = cells[8]
+  const answerMask = grids.get('count')![2][2]
+  const distractors = pickDistractors(rules.map(rule => variantsOf(answer, rule, answerMask)), optionCount - 1, rng)
+  const options = rng.shuffle([{ panel: answer, breaks: null }, ...distractors])
+
+  return {
+    panels: cells.slice(0, 8),
+    options,
+    answerIndex: options.findIndex(o => o.breaks === null),
+    rules,
+    difficulty: rules.filter(r => r.type !== 'constant').length,
+  }
+}
+
+/** 规则的简短标识，用于试次记录，如 "count:xor,color:progression" */
+export function describeRules(rules: MatrixRule[]): string {
+  return rules.filter(r => r.type !== 'constant').map(r => `${r.attribute}:${r.type}`).join(',')
+}
+
+export const ATTRIBUTE_LABELS: Record<Attribute, string> = {
+  shape: '形状',
+  count: '数量',
+  size: '大小',
+  color: '颜色',
+  rotation: '角度',
+}
+
+export const RULE_LABELS: Record<RuleType, string> = {
+  constant: '不变',
+  progression: '递变',
+  distribute: '轮换',
+  xor: '异或',
+}
+
+function explainRule(rule: MatrixRule): string {
+  const label = ATTRIBUTE_LABELS[rule.attribute]
+  switch (rule.type) {
+    case 'progression':
+      return `每行从左到右，${label}逐格增加或减少一档`
+    case 'distribute':
+      return `三种${label}在每一行各出现一次，只是排列顺序不同`
+    case 'xor':
+      return '每行第三格的图形位置由前两格叠加而成：两格都有的位置去掉，只有一格有的保留'
+    default:
+      return `${label}保持不变`
+  }
+}
+
+/** 作答后展示的规律说明，只列出变化的规则 */
+export function explainRules(rules: MatrixRule[]): string {
+  return rules.filter(r => r.type !== 'constant').map(explainRule).join('；') + '。'
+}
+
+/** 规则的中文简称，如 "数量递变、颜色轮换"；异或规则改变的是位置 */
+export function summarizeRules(rules: MatrixRule[]): string {
+  return rules
+    .filter(r => r.type !== 'constant')
+    .map(r => `${r.type === 'xor' ? '位置' : ATTRIBUTE_LABELS[r.attribute]}${RULE_LABELS[r.type]}`)
+    .join('、')
+}
@@ -0,0 +1,82 @@
+import bankData from '../data/patternItems.json'
+
+// ===== 图形推理序列题题库：JSON 存储，加载时逐题校验 =====
+
+export interface PatternItem {
+  id: string
+  sequence: string[]
+  options: string[]
+  correctIndex: number
+  /** 题目难度参数，1（最易）到 5（最难） */
+  difficulty: number
+  /** 题目涉及的规律类型，如 color、rotation、cycle */
+  tags: string[]
+  /** 作答后展示的规律说明 */
+  explanation: string
+}
+
+export const MIN_ITEM_DIFFICULTY = 1
+export const MAX_ITEM_DIFFICULTY = 5
+
+export class PatternBankError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PatternBankError'
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== ''
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString)
+}
+
+function validateItem(value: unknown, index: number): PatternItem {
+  const where = `第 ${index + 1} 题`
+  if (!isObject(value)) throw new PatternBankError(`${where}格式错误`)
+  if (!isNonEmptyString(value.id)) throw new PatternBankError(`${where}缺少 id`)
+  const name = `题目 ${value.id}`
+  if (!isStringList(value.sequence)) throw new PatternBankError(`${name}的序列为空或含有空白图形`)
+  if (!isStringList(value.options) || value.options.length < 2) {
+    throw new PatternBankError(`${name}的选项不足两个或含有空白选项`)
+  }
+  if (new Set(value.options).size !== value.options.length) throw new PatternBankError(`${name}有重复的选项`)
+  if (!Number.isInteger(value.correctIndex) || (value.correctIndex as number) < 0 || (value.correctIndex as number) >= value.options.length) {
+    throw new PatternBankError(`${name}的正确答案序号超出选项范围`)
+  }
+  if (typeof value.difficulty !== 'number' || !(value.difficulty >= MIN_ITEM_DIFFICULTY && value.difficulty <= MAX_ITEM_DIFFICULTY)) {
+    throw new PatternBankError(`${name}的难度参数应在 ${MIN_ITEM_DIFFICULTY}-${MAX_ITEM_DIFFICULTY} 之间`)
+  }
+  if (!Array.isArray(value.tags) || !value.tags.every(isNonEmptyString)) throw new PatternBankError(`${name}的标签无效`)
+  if (!isNonEmptyString(value.explanation)) throw new PatternBankError(`${name}缺少规律说明`)
+  return {
+    id: value.id,
+    sequence: value.sequence,
+    options: value.options,
+    correctIndex: value.correctIndex as number,
+    difficulty: value.difficulty,
+    tags: value.tags,
+    explanation: value.explanation,
+  }
+}
+
+/** 校验整个题库并返回题目列表；任何一题不合格（重复选项、答案越界、空白内容、id 重复）都抛出 PatternBankError */
+export function validatePatternBank(raw: unknown): PatternItem[] {
+  if (!isObject(raw) || !Array.isArray(raw.items)) throw new PatternBankError('题库缺少题目列表')
+  const items = raw.items.map(validateItem)
+  const ids = new Set<string>()
+  for (const item of items) {
+    if (ids.has(item.id)) throw new PatternBankError(`题目 id 重复：${item.id}`)
+    ids.add(item.id)
+  }
+  return items
+}
+
+/** 内置题库，模块加载时校验，题库有误会在启动时直接报错而不是出一道错题 */
+export const PATTERN_ITEMS = validatePatternBank(bankData)
@@ -0,0 +1,64 @@
+// ===== 可设定种子的伪随机数，保证同一种子得到同一套刺激 =====
+
+export interface Rng {
+  /** 种子，随训练记录保存 */
+  readonly seed: number
+  /** [0, 1) 之间的浮点数 */
+  next(): number
+  /** [min, max] 闭区间内的整数 */
+  int(min: number, max: number): number
+  /** 以概率 p 返回 true */
+  chance(p: number): boolean
+  pick<T>(items: readonly T[]): T
+  /** 返回打乱后的新数组，不修改原数组 */
+  shuffle<T>(items: readonly T[]): T[]
+}
+
+export const MAX_SEED = 0xffffffff
+
+/** mulberry32：32 位状态，速度快且分布足够均匀，适合刺激生成 */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1))
+
+  return {
+    seed: seed >>> 0,
+    next,
+    int,
+    chance: (p) => next() < p,
+    pick: (items) => items[int(0, items.length - 1)],
+    shuffle: (items) => {
+      const arr = [...items]
+      for (let i = arr.length - 1; i > 0; i--) {
+        const j = int(0, i)
+        ;[arr[i], arr[j]] = [arr[j], arr[i]]
+      }
+      return arr
+    },
+  }
+}
+
+/** 生成新种子，种子本身不需要可复现 */
+export function randomSeed(): number {
+  if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+    return crypto.getRandomValues(new Uint32Array(1))[0]
+  }
+  return Math.floor(Math.random() * MAX_SEED)
+}
+
+/** 解析用户输入的种子，不合法时返回 null */
+export function parseSeed(text: string): number | null {
+  const trimmed = text.trim()
+  if (!/^\d+$/.test(trimmed)) return null
+  const value = Number(trimmed)
+  return value <= MAX_SEED ? value : null
+}
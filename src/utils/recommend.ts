@@ -0,0 +1,113 @@
+import { FixedDifficulty, FIXED_DIFFICULTIES, DIFFICULTY_LABELS, GameId, GameOptions } from '../types'
+import { GAMES, GameOptionDef, describeOptions, getMaxScore, isScoredPlay, optionsKey } from '../games'
+import { TrainingRecord } from './storage'
+
+// ===== 难度推荐：让近期表现保持在目标区间内 =====
+
+/** 目标区间：得分占满分的比例在此之间时维持当前难度 */
+export const TARGET_BAND = { low: 0.4, high: 0.85 }
+
+/** 连续几次高于目标区间时升级 */
+const PROMOTE_STREAK = 3
+/** 连续几次低于目标区间时降级 */
+const DEMOTE_STREAK = 2
+
+export interface Recommendation {
+  difficulty: FixedDifficulty
+  /** 给用户看的一句话理由 */
+  reason: string
+}
+
+type FixedRecord = TrainingRecord & { difficulty: FixedDifficulty }
+
+function ratio(record: FixedRecord): number {
+  return Math.min(1, record.score / getMaxScore(record.gameId, record.difficulty, record.options))
+}
+
+function isFixed(record: TrainingRecord): record is FixedRecord {
+  return record.difficulty !== 'adaptive'
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+/**
+ * 根据某游戏已完成的训练记录（从早到晚）为所选玩法推荐下一局的难度。
+ * 只看该玩法下最近一次所玩难度上的连续记录，换过难度后重新累计；
+ * 不计分的玩法（如自定义词库）不作推荐，返回 null。
+ */
+export function recommendDifficulty(gameId: GameId, records: TrainingRecord[], options: GameOptions = {}): Recommendation | null {
+  if (!isScoredPlay(gameId, options)) return null
+  // 自适应记录的得分是阈值而非分数，不参与固定难度的推荐
+  const mode = optionsKey(gameId, options)
+  const history = records.filter((r) => r.gameId === gameId && optionsKey(gameId, r.options) === mode).filter(isFixed)
+  if (history.length === 0) {
+    return { difficulty: 'easy', reason: '首次以这种玩法训练，建议从简单开始熟悉' }
+  }
+
+  const current = history[history.length - 1].difficulty
+  const label = DIFFICULTY_LABELS[current]
+  const level = FIXED_DIFFICULTIES.indexOf(current)
+
+  // 当前难度上连续的最近几次
+  const streak: number[] = []
+  for (let i = history.length - 1; i >= 0 && history[i].difficulty === current; i--) {
+    streak.unshift(ratio(history[i]))
+  }
+
+  const recentHigh = streak.slice(-PROMOTE_STREAK)
+  if (recentHigh.length === PROMOTE_STREAK && recentHigh.every((r) => r >= TARGET_BAND.high)) {
+    const next = FIXED_DIFFICULTIES[level + 1]
+    const summary = `最近 ${PROMOTE_STREAK} 次${label}难度都达到满分的 ${percent(TARGET_BAND.high)} 以上`
+    return next
+      ? { difficulty: next, reason: `${summary}，可以挑战${DIFFICULTY_LABELS[next]}难度` }
+      : { difficulty: current, reason: `${summary}，已是最高难度，继续保持` }
+  }
+
+  const recentLow = streak.slice(-DEMOTE_STREAK)
+  if (recentLow.length === DEMOTE_STREAK && recentLow.every((r) => r < TARGET_BAND.low)) {
+    const prev = FIXED_DIFFICULTIES[level - 1]
+    const summary = `最近 ${DEMOTE_STREAK} 次${label}难度得分都低于满分的 ${percent(TARGET_BAND.low)}`
+    return prev
+      ? { difficulty: prev, reason: `${summary}，建议先回到${DIFFICULTY_LABELS[prev]}难度巩固` }
+      : { difficulty: current, reason: `${summary}，多练几次会逐渐熟练` }
+  }
+
+  const recent = streak.slice(-PROMOTE_STREAK)
+  const average = recent.reduce((sum, r) => sum + r, 0) / recent.length
+  return {
+    difficulty: current,
+    reason: `最近${label}难度平均得分为满分的 ${percent(average)}，难度正合适`,
+  }
+}
+
+/** 玩法选项的全部组合，没有选项的游戏只有一个空组合 */
+function optionCombos(defs: GameOptionDef[]): GameOptions[] {
+  return defs.reduce<GameOptions[]>(
+    (combos, def) => combos.flatMap((combo) => def.choices.map((choice) => ({ ...combo, [def.id]: choice.value }))),
+    [{}],
+  )
+}
+
+/**
+ * 找出全部答对也到不了目标区间上沿的 (游戏, 难度, 玩法)：满分定高了，
+ * 这些组合上永远不会推荐升级。返回每个组合的说明，没有问题时为空。
+ * 供改动计分后的校验使用，不在应用运行时调用
+ */
+export function unreachablePromotions(): string[] {
+  const problems: string[] = []
+  for (const game of GAMES) {
+    for (const options of optionCombos(game.options ?? []).filter((o) => isScoredPlay(game.id, o))) {
+      for (const difficulty of FIXED_DIFFICULTIES) {
+        const max = game.maxScore(difficulty, options)
+        const best = game.perfectScore(difficulty, options)
+        if (best < max * TARGET_BAND.high) {
+          const where = [game.name, DIFFICULTY_LABELS[difficulty], describeOptions(game.id, options)].filter(Boolean).join(' · ')
+          problems.push(`${where}：满分 ${max}，最多只能得 ${best}`)
+        }
+      }
+    }
+  }
+  return problems
+}
@@ -1,10 +1,73 @@
-import { GameId, Difficulty, MAX_SCORES } from '../types'
+import { GameId, Difficulty, GameOptions, ScoreEntry, ScoreTable } from '../types'
+import { GAMES, getMaxScore, isScoredPlay } from '../games'
 
-export function normalizeScore(gameId: GameId, difficulty: Difficulty, rawScore: number): number {
-  const max = MAX_SCORES[gameId][difficulty]
+/**
+ * 各难度在统一能力量尺上的权重：困难满分记 100 分，
+ * 普通、简单满分分别只相当于 80、60 分。
+ * 自适应的阈值本身覆盖全部等级，按等级上限直接折算。
+ */
+export const DIFFICULTY_WEIGHTS: Record<Difficulty, number> = {
+  easy: 0.6,
+  normal: 0.8,
+  hard: 1,
+  adaptive: 1,
+}
+
+export interface ProfileEntry {
+  difficulty: Difficulty
+  /** 这次成绩的玩法选项，满分按玩法区分 */
+  options: GameOptions
+  rawScore: number
+  ability: number
+}
+
+export type CognitiveProfile = Record<GameId, ProfileEntry | null>
+
+export function normalizeScore(gameId: GameId, difficulty: Difficulty, rawScore: number, options: GameOptions = {}): number {
+  const max = getMaxScore(gameId, difficulty, options)
   return Math.min(100, Math.round((rawScore / max) * 100))
 }
 
+/** 将某难度下的原始分折算到跨难度可比的 0-100 能力分 */
+export function abilityScore(gameId: GameId, difficulty: Difficulty, rawScore: number, options: GameOptions = {}): number {
+  return Math.round(normalizeScore(gameId, difficulty, rawScore, options) * DIFFICULTY_WEIGHTS[difficulty])
+}
+
+/** 取某游戏各难度成绩中时间最近的一条，可只看满足 include 的成绩 */
+export function getLatestEntry(
+  entries: Partial<Record<string, ScoreEntry>>,
+  include: (entry: ScoreEntry) => boolean = () => true,
+): ScoreEntry | null {
+  let latest: ScoreEntry | null = null
+  for (const entry of Object.values(entries)) {
+    if (entry && include(entry) && (!latest || entry.timestamp > latest.timestamp)) latest = entry
+  }
+  return latest
+}
+
+/** 以每个游戏最近一次实际游玩的难度和成绩生成认知画像；不计分的玩法（如自定义词库）跳过 */
+export function buildProfile(latestScores: ScoreTable): CognitiveProfile {
+  const profile = {} as CognitiveProfile
+  for (const game of GAMES) {
+    const entry = getLatestEntry(latestScores[game.id], e => isScoredPlay(game.id, e.options))
+    profile[game.id] = entry
+      ? {
+          difficulty: entry.difficulty,
+          options: entry.options ?? {},
+          rawScore: entry.score,
+          ability: abilityScore(game.id, entry.difficulty, entry.score, entry.options),
+        }
+      : null
+  }
+  return profile
+}
+
+export function profileAverage(profile: CognitiveProfile): number {
+  const entries = Object.values(profile).filter((e): e is ProfileEntry => e !== null)
+  if (entries.length === 0) return 0
+  return Math.round(entries.reduce((sum, e) => sum + e.ability, 0) / entries.length)
+}
+
 export function getRating(avg: number): { label: string; emoji: string; message: string } {
   if (avg >= 90) return {
     label: '认知达人',
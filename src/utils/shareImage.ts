@@ -0,0 +1,103 @@
+// ===== 结果卡片导出为 PNG，全部在浏览器内绘制 =====
+
+export interface ResultImageOptions {
+  /** 结果页上已绘制好的雷达图 */
+  radarCanvas: HTMLCanvasElement
+  profileName: string
+  ratingText: string
+  average: number
+  message: string
+  date: Date
+}
+
+const WIDTH = 540
+const PADDING = 32
+const RADAR_SIZE = 460
+const SCALE = 2
+const FONT_FAMILY = '-apple-system, "PingFang SC", "Microsoft YaHei", sans-serif'
+
+/** 按字符折行，中文没有空格分词 */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const char of text) {
+    if (line && ctx.measureText(line + char).width > maxWidth) {
+      lines.push(line)
+      line = char
+    } else {
+      line += char
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+function formatDate(d: Date): string {
+  return `${d.getFullYear()}年${d.getMonth() + 1}月${d.getDate()}日`
+}
+
+export function renderResultImage(options: ResultImageOptions): Promise<Blob> {
+  const { radarCanvas, profileName, ratingText, average, message, date } = options
+  const canvas = document.createElement('canvas')
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return Promise.reject(new Error('Canvas 2D is not supported'))
+
+  // 先量出寄语的行数再确定画布高度
+  ctx.font = `15px ${FONT_FAMILY}`
+  const messageLines = wrapText(ctx, message, WIDTH - PADDING * 2)
+  const height = PADDING + 56 + RADAR_SIZE + 44 + 30 + messageLines.length * 24 + 48 + PADDING
+
+  canvas.width = WIDTH * SCALE
+  canvas.height = height * SCALE
+  ctx.scale(SCALE, SCALE)
+
+  ctx.fillStyle = '#FFFFFF'
+  ctx.fillRect(0, 0, WIDTH, height)
+
+  // 页头：应用名 + 档案名和日期
+  let y = PADDING
+  ctx.textBaseline = 'top'
+  ctx.textAlign = 'left'
+  ctx.fillStyle = '#2C3E50'
+  ctx.font = `bold 22px ${FONT_FAMILY}`
+  ctx.fillText('🧠 认知乐园', PADDING, y)
+  ctx.font = `13px ${FONT_FAMILY}`
+  ctx.fillStyle = '#7F8C8D'
+  ctx.fillText('九维认知能力画像', PADDING, y + 30)
+
+  ctx.textAlign = 'right'
+  ctx.font = `bold 16px ${FONT_FAMILY}`
+  ctx.fillStyle = '#2C3E50'
+  ctx.fillText(profileName, WIDTH - PADDING, y + 2)
+  ctx.font = `13px ${FONT_FAMILY}`
+  ctx.fillStyle = '#7F8C8D'
+  ctx.fillText(formatDate(date), WIDTH - PADDING, y + 30)
+  y += 56
+
+  ctx.drawImage(radarCanvas, (WIDTH - RADAR_SIZE) / 2, y, RADAR_SIZE, RADAR_SIZE)
+  y += RADAR_SIZE
+
+  ctx.textAlign = 'center'
+  ctx.fillStyle = '#2C3E50'
+  ctx.font = `bold 26px ${FONT_FAMILY}`
+  ctx.fillText(ratingText, WIDTH / 2, y)
+  y += 44
+  ctx.font = `15px ${FONT_FAMILY}`
+  ctx.fillStyle = '#7F8C8D'
+  ctx.fillText(`综合评分 ${average} 分`, WIDTH / 2, y)
+  y += 30
+
+  for (const line of messageLines) {
+    ctx.fillText(line, WIDTH / 2, y)
+    y += 24
+  }
+
+  y += 20
+  ctx.font = `12px ${FONT_FAMILY}`
+  ctx.fillStyle = '#B0B7BD'
+  ctx.fillText(`认知乐园 v${APP_VERSION} · 结果仅供参考`, WIDTH / 2, y)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG'))), 'image/png')
+  })
+}
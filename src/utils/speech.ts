@@ -0,0 +1,35 @@
+// ===== 语音播报：用浏览器自带的 speechSynthesis 朗读刺激 =====
+
+const LANG = 'zh-CN'
+
+/** 数字按中文读法朗读，避免部分语音把 "1" 读成英文 */
+const DIGIT_WORDS = ['零', '一', '二', '三', '四', '五', '六', '七', '八', '九']
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window
+}
+
+function pickVoice(): SpeechSynthesisVoice | null {
+  const voices = window.speechSynthesis.getVoices()
+  return voices.find(v => v.lang === LANG) ?? voices.find(v => v.lang.startsWith('zh')) ?? null
+}
+
+/** 朗读一段文字，会打断正在播报的内容 */
+export function speak(text: string) {
+  if (!isSpeechSupported()) return
+  const synth = window.speechSynthesis
+  synth.cancel()
+  const utterance = new SpeechSynthesisUtterance(text)
+  utterance.lang = LANG
+  const voice = pickVoice()
+  if (voice) utterance.voice = voice
+  synth.speak(utterance)
+}
+
+export function speakDigit(digit: number) {
+  speak(DIGIT_WORDS[digit])
+}
+
+export function cancelSpeech() {
+  if (isSpeechSupported()) window.speechSynthesis.cancel()
+}
@@ -0,0 +1,81 @@
+// ===== 自适应阶梯法：连续答对升级、答错降级，收敛到约 70.7% 正确率的阈值 =====
+
+export interface StaircaseOptions {
+  /** 起始等级 */
+  start: number
+  min: number
+  max: number
+  /** 连续答对几次升一级，默认 2 */
+  up?: number
+  /** 连续答错几次降一级，默认 1 */
+  down?: number
+  /** 达到该反转次数后结束，默认 8 */
+  reversals?: number
+  /** 计算阈值时丢弃最前面的几次反转，默认 2 */
+  discard?: number
+  /** 试次上限，防止长时间不收敛，默认 40 */
+  maxTrials?: number
+}
+
+export interface Staircase {
+  /** 下一试次应使用的等级 */
+  level(): number
+  /** 记录一次作答，更新等级 */
+  record(correct: boolean): void
+  done(): boolean
+  trials(): number
+  /** 各次反转发生时的等级 */
+  reversals(): number[]
+  /** 收敛阈值（等级），保留一位小数 */
+  threshold(): number
+}
+
+export function createStaircase(options: StaircaseOptions): Staircase {
+  const { start, min, max, up = 2, down = 1, reversals = 8, discard = 2, maxTrials = 40 } = options
+  let level = start
+  let trialCount = 0
+  let correctRun = 0
+  let errorRun = 0
+  let direction: 1 | -1 | 0 = 0
+  const reversalLevels: number[] = []
+
+  const move = (step: 1 | -1) => {
+    if (direction !== 0 && step !== direction) reversalLevels.push(level)
+    direction = step
+    level = Math.min(max, Math.max(min, level + step))
+  }
+
+  return {
+    level: () => level,
+
+    record(correct) {
+      trialCount++
+      if (correct) {
+        correctRun++
+        errorRun = 0
+        if (correctRun >= up) {
+          correctRun = 0
+          move(1)
+        }
+      } else {
+        errorRun++
+        correctRun = 0
+        if (errorRun >= down) {
+          errorRun = 0
+          move(-1)
+        }
+      }
+    },
+
+    done: () => reversalLevels.length >= reversals || trialCount >= maxTrials,
+    trials: () => trialCount,
+    reversals: () => [...reversalLevels],
+
+    threshold() {
+      // 反转不足时退而使用全部反转；一次都没有反转时取当前等级
+      const used = reversalLevels.length > discard ? reversalLevels.slice(discard) : reversalLevels
+      const value = used.length > 0 ? used.reduce((sum, l) => sum + l, 0) / used.length : level
+      return Math.round(value * 10) / 10
+    },
+  }
+}
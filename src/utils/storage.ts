@@ -1,71 +1,507 @@
-import { GameId, Difficulty, Scores } from '../types'
-
-const BEST_SCORES_KEY = 'cogpark_best_scores'
-const RECORDS_KEY = 'cogpark_records'
+import { GameId, Difficulty, GameMetrics, GameOptions, Interruption, Profile, ScoreEntry, ScoreTable, TrialEvent } from '../types'
+import { GAMES, isScoredPlay, scoreSlot } from '../games'
+import { getBackend, StorageBackend, LEGACY_PROFILE_ID, LEGACY_PROFILE_NAME } from './db'
+import { buildProfile, profileAverage } from './scoring'
+import { setCustomWordBank, validateWordBank, WordBank } from './wordBank'
 
 export interface TrainingRecord {
+  id: string
+  profileId: string
   gameId: GameId
   difficulty: Difficulty
   score: number
   timestamp: number
+  /** 生成本局刺激的随机种子，早期记录没有 */
+  seed: number | null
+  /** 本局的暂停和中断 */
+  interruptions: Interruption[]
+  /** 中途放弃的记录 score 为退出时的得分，不计入成绩和统计 */
+  status: RecordStatus
+  /** 中途放弃时达到的进度，完成的记录为 null */
+  progress: RecordProgress | null
+  /** 本局的玩法选项，如数字广度的顺背 / 倒背 */
+  options: GameOptions
+  /** 游戏上报的额外指标，如最长广度 */
+  metrics: GameMetrics
+}
+
+export type RecordStatus = 'completed' | 'abandoned'
+
+export interface RecordProgress {
+  /** 已完成的轮数 */
+  round: number
+  /** 总轮数，不固定时为 null */
+  total: number | null
+  /** 已完成的试次数 */
+  trials: number
+}
+
+/** 一局结束时除分数外需要保存的内容 */
+export interface SessionData {
+  trials: TrialEvent[]
+  seed: number | null
+  interruptions: Interruption[]
+  status: RecordStatus
+  progress: RecordProgress | null
+  options: GameOptions
+  metrics: GameMetrics
+}
+
+/** 完成全部游戏时保存的认知画像，用于前后对比 */
+export interface ProfileSnapshot {
+  id: string
+  profileId: string
+  timestamp: number
+  /** 各项 0-100 能力分 */
+  abilities: Record<GameId, number>
+  average: number
+}
+
+interface TrialSet {
+  recordId: string
+  events: TrialEvent[]
 }
 
-// ===== 最高分 =====
+type ScoreKind = 'best' | 'latest'
 
-export function loadBestScores(): Scores {
-  const defaults: Scores = { memory: null, schulte: null, stroop: null, wordSort: null, pathMemory: null, reaction: null, digitSpan: null, arithmetic: null, patternReason: null }
+interface ScoreTableDoc {
+  /** "<档案 id>:best" 或 "<档案 id>:latest" */
+  key: string
+  table: ScoreTable
+}
+
+interface MetaDoc {
+  key: string
+  value: unknown
+}
+
+export function emptyScoreTable(): ScoreTable {
+  return Object.fromEntries(GAMES.map(g => [g.id, {}])) as ScoreTable
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// ===== 从 localStorage 旧版数据导入 =====
+
+// 旧版 localStorage 键：每个游戏一个不区分难度的最高分，以及最多 200 条的记录
+const LEGACY_BEST_SCORES_KEY = 'cogpark_best_scores'
+const LEGACY_BEST_BY_DIFFICULTY_KEY = 'cogpark_best_by_difficulty'
+const LEGACY_LATEST_BY_DIFFICULTY_KEY = 'cogpark_latest_by_difficulty'
+const LEGACY_RECORDS_KEY = 'cogpark_records'
+const LEGACY_TRIALS_KEY = 'cogpark_trials'
+const LEGACY_KEYS = [
+  LEGACY_BEST_SCORES_KEY, LEGACY_BEST_BY_DIFFICULTY_KEY, LEGACY_LATEST_BY_DIFFICULTY_KEY,
+  LEGACY_RECORDS_KEY, LEGACY_TRIALS_KEY,
+]
+const LEGACY_IMPORTED_META = 'legacyImported'
+const ACTIVE_PROFILE_META = 'activeProfile'
+const CUSTOM_WORD_BANK_META = 'customWordBank'
+
+function readLegacy<T>(key: string): T | null {
+  const data = localStorage.getItem(key)
+  if (!data) return null
   try {
-    const data = localStorage.getItem(BEST_SCORES_KEY)
-    if (data) return { ...defaults, ...JSON.parse(data) }
-  } catch { /* ignore */ }
-  return defaults
+    return JSON.parse(data)
+  } catch (err) {
+    // 原始数据保留在 localStorage 中，不会被删除，便于人工恢复
+    console.warn(`[storage] 无法解析旧版数据 ${key}，已跳过`, err)
+    return null
+  }
+}
+
+/**
+ * 把一条成绩放进它所属的 (难度, 玩法) 槽位：最高分表取分数较高者，最近成绩表取较新者。
+ * 返回是否写入。
+ */
+function putScoreEntry(table: ScoreTable, kind: ScoreKind, gameId: GameId, entry: ScoreEntry): boolean {
+  const slot = scoreSlot(gameId, entry.difficulty, entry.options)
+  const prev = table[gameId][slot]
+  const replace = !prev || (kind === 'best' ? entry.score > prev.score : entry.timestamp >= prev.timestamp)
+  if (replace) table[gameId][slot] = entry
+  return replace
+}
+
+/** 按当前的槽位键重新归档；早期成绩表只按难度存放，不同玩法共用一格 */
+function slotScoreTable(table: Partial<ScoreTable>, kind: ScoreKind): ScoreTable {
+  const slotted = emptyScoreTable()
+  for (const game of GAMES) {
+    for (const entry of Object.values(table[game.id] ?? {})) {
+      if (entry) putScoreEntry(slotted, kind, game.id, entry)
+    }
+  }
+  return slotted
 }
 
-export function saveBestScore(gameId: GameId, score: number) {
-  const best = loadBestScores()
-  if (best[gameId] == null || score > best[gameId]!) {
-    best[gameId] = score
-    localStorage.setItem(BEST_SCORES_KEY, JSON.stringify(best))
+/** 由训练记录重建按难度和玩法的最高分和最近成绩 */
+function buildScoreTables(records: TrainingRecord[]): { best: ScoreTable; latest: ScoreTable } {
+  const best = emptyScoreTable()
+  const latest = emptyScoreTable()
+  for (const r of records) {
+    if (!best[r.gameId]) continue
+    const entry = { difficulty: r.difficulty, score: r.score, timestamp: r.timestamp, options: r.options }
+    putScoreEntry(best, 'best', r.gameId, entry)
+    putScoreEntry(latest, 'latest', r.gameId, entry)
   }
+  return { best, latest }
+}
+
+/**
+ * 首次打开数据库时导入 localStorage 中的旧版数据，归入默认档案。
+ * 导入后旧数据原样保留，仅在 meta 中记一笔，避免重复导入。
+ */
+async function importLegacyData(db: StorageBackend) {
+  if (typeof localStorage === 'undefined') return
+  if (await db.get<MetaDoc>('meta', LEGACY_IMPORTED_META)) return
+  if (!LEGACY_KEYS.some(key => localStorage.getItem(key) !== null)) {
+    await db.put<MetaDoc>('meta', { key: LEGACY_IMPORTED_META, value: Date.now() })
+    return
+  }
+
+  const rawRecords = readLegacy<(Omit<TrainingRecord, 'id' | 'profileId' | 'seed' | 'interruptions' | 'status' | 'progress' | 'options' | 'metrics'> & { id?: string })[]>(LEGACY_RECORDS_KEY) ?? []
+  // 早期记录没有 id，用时间戳和游戏生成一个稳定的 id
+  const records: TrainingRecord[] = rawRecords.map(r => ({
+    ...r,
+    id: r.id ?? `legacy-${r.timestamp}-${r.gameId}`,
+    profileId: LEGACY_PROFILE_ID,
+    seed: null,
+    interruptions: [],
+    status: 'completed' as const,
+    progress: null,
+    options: {},
+    metrics: {},
+  }))
+  for (const record of records) await db.put('records', record)
+
+  const trialMap = readLegacy<Record<string, TrialEvent[]>>(LEGACY_TRIALS_KEY) ?? {}
+  for (const [recordId, events] of Object.entries(trialMap)) {
+    await db.put<TrialSet>('trials', { recordId, events })
+  }
+
+  const rebuilt = buildScoreTables(records)
+  const best = { ...rebuilt.best, ...readLegacy<ScoreTable>(LEGACY_BEST_BY_DIFFICULTY_KEY) }
+  const latest = { ...rebuilt.latest, ...readLegacy<ScoreTable>(LEGACY_LATEST_BY_DIFFICULTY_KEY) }
+
+  // 最早的最高分没有难度信息，若该游戏没有任何按难度的成绩，则按当时雷达图使用的"普通"难度归档
+  const legacyBest = readLegacy<Partial<Record<GameId, number | null>>>(LEGACY_BEST_SCORES_KEY) ?? {}
+  for (const game of GAMES) {
+    const score = legacyBest[game.id]
+    if (score == null || Object.keys(best[game.id]).length > 0) continue
+    const entry = { difficulty: 'normal' as const, score, timestamp: 0 }
+    best[game.id] = { normal: entry }
+    latest[game.id] = { normal: entry }
+  }
+
+  // 旧版成绩没有玩法选项，归入各游戏的默认玩法
+  await db.put<ScoreTableDoc>('scores', { key: `${LEGACY_PROFILE_ID}:best`, table: slotScoreTable(best, 'best') })
+  await db.put<ScoreTableDoc>('scores', { key: `${LEGACY_PROFILE_ID}:latest`, table: slotScoreTable(latest, 'latest') })
+  if (!await db.get<Profile>('profiles', LEGACY_PROFILE_ID)) {
+    await db.put<Profile>('profiles', {
+      id: LEGACY_PROFILE_ID, name: LEGACY_PROFILE_NAME, avatar: '🙂',
+      birthYear: null, education: null, createdAt: Date.now(),
+    })
+  }
+  await db.put<MetaDoc>('meta', { key: LEGACY_IMPORTED_META, value: Date.now() })
+}
+
+let readyPromise: Promise<StorageBackend> | null = null
+
+/** 获取已完成旧数据导入的存储后端 */
+function ready(): Promise<StorageBackend> {
+  if (!readyPromise) {
+    readyPromise = getBackend().then(async db => {
+      await importLegacyData(db)
+      return db
+    })
+  }
+  return readyPromise
+}
+
+// ===== 用户档案 =====
+
+export async function loadProfiles(): Promise<Profile[]> {
+  const db = await ready()
+  const profiles = await db.getAll<Profile>('profiles')
+  return profiles.sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function createProfile(fields: Omit<Profile, 'id' | 'createdAt'>): Promise<Profile> {
+  const db = await ready()
+  const profile: Profile = { ...fields, id: createId(), createdAt: Date.now() }
+  await db.put('profiles', profile)
+  return profile
+}
+
+export async function updateProfile(profile: Profile) {
+  const db = await ready()
+  await db.put('profiles', profile)
+}
+
+/** 删除档案及其全部记录、试次和成绩 */
+export async function deleteProfile(profileId: string) {
+  const db = await ready()
+  await clearRecords(profileId)
+  await db.delete('scores', `${profileId}:best`)
+  await db.delete('scores', `${profileId}:latest`)
+  await db.delete('profiles', profileId)
+  if (await getActiveProfileId() === profileId) {
+    await db.delete('meta', ACTIVE_PROFILE_META)
+  }
+}
+
+export async function getActiveProfileId(): Promise<string | null> {
+  const db = await ready()
+  const doc = await db.get<MetaDoc>('meta', ACTIVE_PROFILE_META)
+  return typeof doc?.value === 'string' ? doc.value : null
+}
+
+export async function setActiveProfileId(profileId: string) {
+  const db = await ready()
+  await db.put<MetaDoc>('meta', { key: ACTIVE_PROFILE_META, value: profileId })
+}
+
+// ===== 最高分 / 最近成绩 =====
+
+async function loadScoreTable(profileId: string, kind: ScoreKind): Promise<ScoreTable> {
+  const db = await ready()
+  const doc = await db.get<ScoreTableDoc>('scores', `${profileId}:${kind}`)
+  return slotScoreTable(doc?.table ?? {}, kind)
+}
+
+async function saveScoreTable(profileId: string, kind: ScoreKind, table: ScoreTable) {
+  const db = await ready()
+  await db.put<ScoreTableDoc>('scores', { key: `${profileId}:${kind}`, table })
+}
+
+export function loadBestScores(profileId: string): Promise<ScoreTable> {
+  return loadScoreTable(profileId, 'best')
+}
+
+export function loadLatestScores(profileId: string): Promise<ScoreTable> {
+  return loadScoreTable(profileId, 'latest')
+}
+
+export async function saveScore(
+  profileId: string, gameId: GameId, difficulty: Difficulty, score: number, options: GameOptions,
+) {
+  const entry = { difficulty, score, timestamp: Date.now(), options }
+
+  const best = await loadBestScores(profileId)
+  if (putScoreEntry(best, 'best', gameId, entry)) await saveScoreTable(profileId, 'best', best)
+
+  const latest = await loadLatestScores(profileId)
+  putScoreEntry(latest, 'latest', gameId, entry)
+  await saveScoreTable(profileId, 'latest', latest)
 }
 
 // ===== 训练记录 =====
 
-export function loadRecords(): TrainingRecord[] {
-  try {
-    const data = localStorage.getItem(RECORDS_KEY)
-    if (data) return JSON.parse(data)
-  } catch { /* ignore */ }
-  return []
+/** 某档案的全部训练记录，按时间从早到晚排列 */
+export async function loadRecords(profileId: string): Promise<TrainingRecord[]> {
+  const db = await ready()
+  const records = await db.getAllBy<TrainingRecord>('records', 'profileId', profileId)
+  // 早期记录没有 seed、interruptions、status、progress、options、metrics 字段
+  return records
+    .map(r => ({
+      ...r,
+      seed: r.seed ?? null,
+      interruptions: r.interruptions ?? [],
+      status: r.status ?? 'completed',
+      progress: r.progress ?? null,
+      options: r.options ?? {},
+      metrics: r.metrics ?? {},
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp)
 }
 
-export function saveRecord(gameId: GameId, difficulty: Difficulty, score: number) {
-  const records = loadRecords()
-  records.push({
+/** 只保留完整完成的记录，统计和趋势都应基于它 */
+export function completedRecords(records: TrainingRecord[]): TrainingRecord[] {
+  return records.filter(r => r.status === 'completed')
+}
+
+export async function saveRecord(
+  profileId: string,
+  gameId: GameId,
+  difficulty: Difficulty,
+  score: number,
+  { trials, seed, interruptions, status, progress, options, metrics }: SessionData,
+): Promise<TrainingRecord> {
+  const db = await ready()
+  const record: TrainingRecord = {
+    id: createId(),
+    profileId,
     gameId,
     difficulty,
     score,
     timestamp: Date.now(),
-  })
-  // 最多保留最近 200 条
-  if (records.length > 200) {
-    records.splice(0, records.length - 200)
+    seed,
+    interruptions,
+    status,
+    progress,
+    options,
+    metrics,
+  }
+  await db.put('records', record)
+  await db.put<TrialSet>('trials', { recordId: record.id, events: trials })
+  return record
+}
+
+export async function loadTrials(recordId: string): Promise<TrialEvent[]> {
+  const db = await ready()
+  const set = await db.get<TrialSet>('trials', recordId)
+  // 早期试次没有 input 字段
+  return (set?.events ?? []).map(e => ({ ...e, input: e.input ?? null }))
+}
+
+/** 某档案的全部试次数据，按记录 id 索引 */
+export async function loadAllTrials(profileId: string): Promise<Record<string, TrialEvent[]>> {
+  const records = await loadRecords(profileId)
+  const entries = await Promise.all(records.map(async r => [r.id, await loadTrials(r.id)] as const))
+  return Object.fromEntries(entries)
+}
+
+export interface MergeResult {
+  added: number
+  skipped: number
+}
+
+function isSameRecord(a: TrainingRecord, b: TrainingRecord): boolean {
+  return a.id === b.id || (
+    a.gameId === b.gameId &&
+    a.difficulty === b.difficulty &&
+    a.timestamp === b.timestamp &&
+    a.score === b.score
+  )
+}
+
+/**
+ * 把外部数据合并到指定档案：已存在的记录（同 id，或游戏、难度、时间、分数均相同）跳过；
+ * 最高分取较高者，最近成绩取较新者。
+ */
+export async function mergeData(profileId: string, data: {
+  records: Omit<TrainingRecord, 'profileId'>[]
+  trials: Record<string, TrialEvent[]>
+  bestScores: ScoreTable
+  latestScores: ScoreTable
+}): Promise<MergeResult> {
+  const db = await ready()
+  const existing = await loadRecords(profileId)
+  const result: MergeResult = { added: 0, skipped: 0 }
+
+  for (const imported of data.records) {
+    const record = { ...imported, profileId }
+    if (existing.some(r => isSameRecord(r, record))) {
+      result.skipped++
+      continue
+    }
+    // 记录 id 全局唯一，同一份数据导入另一个档案时需要换新 id
+    if (await db.get('records', record.id)) record.id = createId()
+    await db.put('records', record)
+    await db.put<TrialSet>('trials', { recordId: record.id, events: data.trials[imported.id] ?? [] })
+    existing.push(record)
+    result.added++
+  }
+
+  const best = await loadBestScores(profileId)
+  const latest = await loadLatestScores(profileId)
+  for (const game of GAMES) {
+    for (const entry of Object.values(data.bestScores[game.id] ?? {})) {
+      if (entry) putScoreEntry(best, 'best', game.id, entry)
+    }
+    for (const entry of Object.values(data.latestScores[game.id] ?? {})) {
+      if (entry) putScoreEntry(latest, 'latest', game.id, entry)
+    }
   }
-  localStorage.setItem(RECORDS_KEY, JSON.stringify(records))
+  await saveScoreTable(profileId, 'best', best)
+  await saveScoreTable(profileId, 'latest', latest)
+
+  return result
 }
 
-export function getGameRecords(gameId: GameId): TrainingRecord[] {
-  return loadRecords().filter(r => r.gameId === gameId)
+export async function getGameRecords(profileId: string, gameId: GameId): Promise<TrainingRecord[]> {
+  return completedRecords(await loadRecords(profileId)).filter(r => r.gameId === gameId)
 }
 
-export function getTodayCount(): number {
+export async function getTodayCount(profileId: string): Promise<number> {
   const today = new Date()
   today.setHours(0, 0, 0, 0)
   const startOfDay = today.getTime()
-  return loadRecords().filter(r => r.timestamp >= startOfDay).length
+  return completedRecords(await loadRecords(profileId)).filter(r => r.timestamp >= startOfDay).length
+}
+
+/** 清除某档案的训练记录和成绩，档案本身保留 */
+export async function clearRecords(profileId: string) {
+  const db = await ready()
+  for (const record of await loadRecords(profileId)) {
+    await db.delete('records', record.id)
+    await db.delete('trials', record.id)
+  }
+  for (const snapshot of await loadSnapshots(profileId)) {
+    await db.delete('snapshots', snapshot.id)
+  }
+  await saveScoreTable(profileId, 'best', emptyScoreTable())
+  await saveScoreTable(profileId, 'latest', emptyScoreTable())
+  // 旧版数据都归在默认档案下，清除默认档案时一并删除仍保留在 localStorage 中的副本
+  if (profileId === LEGACY_PROFILE_ID) {
+    for (const key of LEGACY_KEYS) localStorage.removeItem(key)
+  }
+}
+
+// ===== 认知画像快照 =====
+
+/** 某档案的全部快照，按时间从早到晚排列 */
+export async function loadSnapshots(profileId: string): Promise<ProfileSnapshot[]> {
+  const db = await ready()
+  const snapshots = await db.getAllBy<ProfileSnapshot>('snapshots', 'profileId', profileId)
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * 自上次快照以来每个游戏都至少完成过一次时，保存一份当前画像。
+ * 应在保存成绩之后调用；未保存时返回 null。
+ */
+export async function saveSnapshotIfComplete(profileId: string): Promise<ProfileSnapshot | null> {
+  const db = await ready()
+  const snapshots = await loadSnapshots(profileId)
+  const since = snapshots.length > 0 ? snapshots[snapshots.length - 1].timestamp : 0
+  const records = completedRecords(await loadRecords(profileId))
+  const played = new Set(records.filter(r => r.timestamp > since && isScoredPlay(r.gameId, r.options)).map(r => r.gameId))
+  if (!GAMES.every(g => played.has(g.id))) return null
+
+  const profile = buildProfile(await loadLatestScores(profileId))
+  const snapshot: ProfileSnapshot = {
+    id: createId(),
+    profileId,
+    timestamp: Date.now(),
+    abilities: Object.fromEntries(GAMES.map(g => [g.id, profile[g.id]?.ability ?? 0])) as Record<GameId, number>,
+    average: profileAverage(profile),
+  }
+  await db.put('snapshots', snapshot)
+  return snapshot
+}
+
+// ===== 自定义词库 =====
+// 本机所有档案共用，治疗师导入一次即可给不同的人使用
+
+/** 读取自定义词库并同步给词语分类游戏；存储的内容不再合法时视为没有 */
+export async function loadCustomWordBank(): Promise<WordBank | null> {
+  const db = await ready()
+  const doc = await db.get<MetaDoc>('meta', CUSTOM_WORD_BANK_META)
+  let bank: WordBank | null = null
+  try {
+    bank = doc ? validateWordBank(doc.value) : null
+  } catch {
+    bank = null
+  }
+  setCustomWordBank(bank)
+  return bank
 }
 
-export function clearRecords() {
-  localStorage.removeItem(RECORDS_KEY)
-  localStorage.removeItem(BEST_SCORES_KEY)
+/** 保存校验过的自定义词库，传 null 表示删除 */
+export async function saveCustomWordBank(bank: WordBank | null) {
+  const db = await ready()
+  if (bank) await db.put<MetaDoc>('meta', { key: CUSTOM_WORD_BANK_META, value: bank })
+  else await db.delete('meta', CUSTOM_WORD_BANK_META)
+  setCustomWordBank(bank)
 }
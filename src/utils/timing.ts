@@ -0,0 +1,123 @@
+import { useEffect, useLayoutEffect, useRef } from 'react'
+
+// ===== 高精度计时：刺激出现取渲染后下一帧的时刻，作答取输入事件自带的时间戳 =====
+// 时刻统一用 performance 时间轴 (ms)，写入试次事件前再换算为 epoch ms
+
+/** performance 时间轴上的时刻换算为 epoch ms */
+export function perfToEpoch(time: number): number {
+  return Math.round(performance.timeOrigin + time)
+}
+
+/**
+ * 输入事件发生的时刻。event.timeStamp 是浏览器收到输入的时间，
+ * 不含 React 处理事件和重新渲染的延迟；个别旧浏览器给出 0 或 epoch 时退回当前时刻。
+ */
+export function eventTime(event: Event): number {
+  const now = performance.now()
+  const t = event.timeStamp
+  return t > 0 && t <= now ? t : now
+}
+
+/**
+ * 刺激真正呈现的时刻：key 变化并提交到 DOM 后，取下一帧 requestAnimationFrame 的时间戳。
+ * key 为 null 表示当前没有刺激。返回的 ref 在该帧到来前为 null，调用方据此识别早于呈现的作答。
+ */
+export function useStimulusOnset(key: string | number | null, onOnset?: (time: number) => void) {
+  const onsetRef = useRef<number | null>(null)
+  const onOnsetRef = useRef(onOnset)
+  useEffect(() => {
+    onOnsetRef.current = onOnset
+  })
+
+  useLayoutEffect(() => {
+    onsetRef.current = null
+    if (key === null) return
+    const id = requestAnimationFrame((time) => {
+      onsetRef.current = time
+      onOnsetRef.current?.(time)
+    })
+    return () => cancelAnimationFrame(id)
+  }, [key])
+
+  return onsetRef
+}
+
+export interface TimingPrecision {
+  /** 屏幕刷新间隔 (ms)，刺激呈现时刻的误差在一帧以内 */
+  frameMs: number
+  /** performance.now() 的分辨率 (ms)，浏览器出于安全考虑可能降低精度 */
+  resolutionMs: number
+  /** 单次反应时的估计误差上限 (ms)：一帧加上刺激和作答两端各一个时钟分辨率 */
+  errorMs: number
+}
+
+/** 估计刷新间隔时采样的帧数 */
+const SAMPLE_FRAMES = 20
+/** 每帧测一次时钟步长，最多空转这么久 (ms)；时钟更粗时改由帧时间戳估计 */
+const RESOLUTION_BUDGET_MS = 2
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/** 连续读 performance.now() 直到数值变化，返回步长；超出预算仍未变化时返回 null */
+function timerStep(): number | null {
+  const deadline = Date.now() + RESOLUTION_BUDGET_MS
+  const start = performance.now()
+  let next = performance.now()
+  while (next === start) {
+    if (Date.now() > deadline) return null
+    next = performance.now()
+  }
+  return next - start
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+/**
+ * 测量本设备的计时精度，约需 SAMPLE_FRAMES 帧（60 Hz 下约三分之一秒）。
+ * 刷新间隔取相邻帧间隔的中位数，偶尔掉帧不影响结果；时钟分辨率分散到各帧采样，
+ * 不会长时间阻塞。返回取消函数。
+ */
+export function measureTimingPrecision(onDone: (precision: TimingPrecision) => void): () => void {
+  const stamps: number[] = []
+  const steps: number[] = []
+  let id = 0
+
+  const tick = (time: number) => {
+    stamps.push(time)
+    const step = timerStep()
+    if (step !== null) steps.push(step)
+    if (stamps.length <= SAMPLE_FRAMES) {
+      id = requestAnimationFrame(tick)
+      return
+    }
+    const intervals = stamps.slice(1).map((t, i) => t - stamps[i])
+    const frameMs = median(intervals)
+    // 时钟步长超出预算时，帧时间戳同样按该步长取整，取最小的非零间隔
+    const resolutionMs = steps.length > 0
+      ? Math.min(...steps)
+      : Math.min(...intervals.filter((t) => t > 0), frameMs)
+    onDone({
+      frameMs: round1(frameMs),
+      resolutionMs: Math.round(resolutionMs * 1000) / 1000,
+      errorMs: round1(frameMs + 2 * resolutionMs),
+    })
+  }
+
+  id = requestAnimationFrame(tick)
+  return () => cancelAnimationFrame(id)
+}
+
+/** 挂载时测量一次计时精度，测完前为 null */
+export function useTimingPrecision() {
+  const precisionRef = useRef<TimingPrecision | null>(null)
+  useEffect(() => measureTimingPrecision((precision) => {
+    precisionRef.current = precision
+  }), [])
+  return precisionRef
+}
@@ -0,0 +1,322 @@
+import {
+  Difficulty, Education, EDUCATION_LABELS, Interruption, PAUSE_REASON_LABELS, Profile, ScoreEntry, ScoreTable, TrialEvent, DIFFICULTIES,
+} from '../types'
+import { GAMES, isGameId, scoreSlot } from '../games'
+import {
+  TrainingRecord, RecordProgress, MergeResult,
+  loadRecords, loadAllTrials, loadBestScores, loadLatestScores, mergeData,
+} from './storage'
+
+// ===== 训练数据导出 / 导入 =====
+
+export const BUNDLE_FORMAT = 'cogpark-export'
+// v2：按档案导出，记录不再带档案 id，附带档案信息
+export const BUNDLE_VERSION = 2
+
+/** 导出文件中的记录不含档案 id，导入时归入当前档案 */
+export type BundleRecord = Omit<TrainingRecord, 'profileId'>
+
+export type BundleProfile = Omit<Profile, 'id' | 'createdAt'>
+
+export interface DataBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  appVersion: string
+  exportedAt: number
+  /** 导出时的档案信息，v1 文件没有 */
+  profile: BundleProfile | null
+  records: BundleRecord[]
+  trials: Record<string, TrialEvent[]>
+  bestScores: ScoreTable
+  latestScores: ScoreTable
+}
+
+/** 导入文件不符合格式时抛出，message 可直接展示给用户 */
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BundleError'
+  }
+}
+
+export async function exportBundle(profile: Profile): Promise<DataBundle> {
+  const [records, trials, bestScores, latestScores] = await Promise.all([
+    loadRecords(profile.id), loadAllTrials(profile.id), loadBestScores(profile.id), loadLatestScores(profile.id),
+  ])
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    appVersion: APP_VERSION,
+    exportedAt: Date.now(),
+    profile: {
+      name: profile.name,
+      avatar: profile.avatar,
+      birthYear: profile.birthYear,
+      education: profile.education,
+    },
+    records: records.map(({ profileId: _, ...record }) => record),
+    trials,
+    bestScores,
+    latestScores,
+  }
+}
+
+// ----- 校验 -----
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTIES.includes(value as Difficulty)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function validateRecord(value: unknown, index: number): BundleRecord {
+  const where = `第 ${index + 1} 条记录`
+  if (!isObject(value)) throw new BundleError(`${where}格式错误`)
+  if (typeof value.id !== 'string' || !value.id) throw new BundleError(`${where}缺少 id`)
+  if (!isGameId(value.gameId)) throw new BundleError(`${where}的游戏未知：${String(value.gameId)}`)
+  if (!isDifficulty(value.difficulty)) throw new BundleError(`${where}的难度无效：${String(value.difficulty)}`)
+  if (!isFiniteNumber(value.score)) throw new BundleError(`${where}的分数无效`)
+  if (!isFiniteNumber(value.timestamp)) throw new BundleError(`${where}的时间无效`)
+  if (value.seed !== undefined && value.seed !== null && !isFiniteNumber(value.seed)) {
+    throw new BundleError(`${where}的题目编号无效`)
+  }
+  if (value.interruptions !== undefined && !(Array.isArray(value.interruptions) && value.interruptions.every(isInterruption))) {
+    throw new BundleError(`${where}的中断数据无效`)
+  }
+  if (value.status !== undefined && value.status !== 'completed' && value.status !== 'abandoned') {
+    throw new BundleError(`${where}的状态无效：${String(value.status)}`)
+  }
+  if (value.progress !== undefined && value.progress !== null && !isProgress(value.progress)) {
+    throw new BundleError(`${where}的进度无效`)
+  }
+  if (value.options !== undefined && !isStringMap(value.options)) {
+    throw new BundleError(`${where}的玩法选项无效`)
+  }
+  if (value.metrics !== undefined && !isNumberMap(value.metrics)) {
+    throw new BundleError(`${where}的指标无效`)
+  }
+  return {
+    id: value.id,
+    gameId: value.gameId,
+    difficulty: value.difficulty,
+    score: value.score,
+    timestamp: value.timestamp,
+    seed: isFiniteNumber(value.seed) ? value.seed : null,
+    interruptions: value.interruptions ?? [],
+    status: value.status ?? 'completed',
+    progress: value.progress ?? null,
+    options: value.options ?? {},
+    metrics: value.metrics ?? {},
+  }
+}
+
+function isStringMap(value: unknown): value is Record<string, string> {
+  return isObject(value) && Object.values(value).every(v => typeof v === 'string')
+}
+
+function isNumberMap(value: unknown): value is Record<string, number> {
+  return isObject(value) && Object.values(value).every(isFiniteNumber)
+}
+
+function isProgress(value: unknown): value is RecordProgress {
+  return isObject(value) &&
+    isFiniteNumber(value.round) &&
+    (value.total === null || isFiniteNumber(value.total)) &&
+    isFiniteNumber(value.trials)
+}
+
+function isInterruption(value: unknown): value is Interruption {
+  return isObject(value) &&
+    typeof value.reason === 'string' && value.reason in PAUSE_REASON_LABELS &&
+    isFiniteNumber(value.start) &&
+    isFiniteNumber(value.duration)
+}
+
+function validateTrial(value: unknown): value is TrialEvent {
+  return isObject(value) &&
+    isFiniteNumber(value.trial) &&
+    typeof value.stimulus === 'string' &&
+    (value.response === null || typeof value.response === 'string') &&
+    (value.correct === null || typeof value.correct === 'boolean') &&
+    (value.latency === null || isFiniteNumber(value.latency)) &&
+    isFiniteNumber(value.stimulusAt) &&
+    (value.responseAt === null || isFiniteNumber(value.responseAt)) &&
+    (value.input === undefined || value.input === null || value.input === 'pointer' || value.input === 'keyboard')
+}
+
+function isScoreEntry(value: unknown): value is ScoreEntry {
+  return isObject(value) &&
+    DIFFICULTIES.includes(value.difficulty as Difficulty) &&
+    isFiniteNumber(value.score) &&
+    isFiniteNumber(value.timestamp) &&
+    (value.options === undefined || isStringMap(value.options))
+}
+
+function validateScoreTable(value: unknown, name: string): ScoreTable {
+  const table = {} as ScoreTable
+  if (value === undefined) value = {}
+  if (!isObject(value)) throw new BundleError(`${name}格式错误`)
+  for (const game of GAMES) {
+    const entries = value[game.id] ?? {}
+    if (!isObject(entries)) throw new BundleError(`${name}中 ${game.name} 的格式错误`)
+    table[game.id] = {}
+    // 早期导出的成绩只按难度存放，按成绩自身的难度和玩法重新归槽
+    for (const entry of Object.values(entries)) {
+      if (!isScoreEntry(entry)) throw new BundleError(`${name}中 ${game.name} 的成绩格式错误`)
+      table[game.id][scoreSlot(game.id, entry.difficulty, entry.options)] = entry
+    }
+  }
+  return table
+}
+
+function validateProfile(value: unknown): BundleProfile | null {
+  // 档案信息只作参考，格式不对时忽略而不拒绝整个文件
+  if (!isObject(value) || typeof value.name !== 'string') return null
+  return {
+    name: value.name,
+    avatar: typeof value.avatar === 'string' ? value.avatar : '',
+    birthYear: isFiniteNumber(value.birthYear) ? value.birthYear : null,
+    education: typeof value.education === 'string' && value.education in EDUCATION_LABELS
+      ? value.education as Education
+      : null,
+  }
+}
+
+/** 校验导入内容并返回规范化后的数据包，不合法时抛出 BundleError */
+export function validateBundle(raw: unknown): DataBundle {
+  if (!isObject(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new BundleError('不是认知乐园导出的数据文件')
+  }
+  if (!isFiniteNumber(raw.version) || raw.version > BUNDLE_VERSION) {
+    throw new BundleError('数据文件版本过新，请先更新应用')
+  }
+  if (!Array.isArray(raw.records)) throw new BundleError('数据文件缺少训练记录')
+
+  const records = raw.records.map(validateRecord)
+
+  const trials: Record<string, TrialEvent[]> = {}
+  if (raw.trials !== undefined) {
+    if (!isObject(raw.trials)) throw new BundleError('试次数据格式错误')
+    for (const [recordId, events] of Object.entries(raw.trials)) {
+      if (!Array.isArray(events) || !events.every(validateTrial)) {
+        throw new BundleError(`记录 ${recordId} 的试次数据格式错误`)
+      }
+      trials[recordId] = events.map(e => ({ ...e, input: e.input ?? null }))
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: raw.version,
+    appVersion: typeof raw.appVersion === 'string' ? raw.appVersion : '',
+    exportedAt: isFiniteNumber(raw.exportedAt) ? raw.exportedAt : 0,
+    profile: validateProfile(raw.profile),
+    records,
+    trials,
+    bestScores: validateScoreTable(raw.bestScores, '最高分'),
+    latestScores: validateScoreTable(raw.latestScores, '最近成绩'),
+  }
+}
+
+/** 解析导入的 JSON 文本并合并到指定档案 */
+export async function importBundle(profileId: string, text: string): Promise<MergeResult> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    throw new BundleError('文件不是有效的 JSON')
+  }
+  return mergeData(profileId, validateBundle(raw))
+}
+
+// ----- CSV -----
+
+/** 以这些字符开头的文本会被电子表格当作公式执行；纯数字（如负数作答）不会，原样保留 */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+const NUMERIC_TEXT = /^[-+]?\d+(\.\d+)?$/
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return ''
+  // 自定义词语、作答等文本前加单引号，防止打开文件时被当作公式
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) && !NUMERIC_TEXT.test(value) ? `'${value}` : String(value)
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(header: string[], rows: (string | number | boolean | null)[][]): string {
+  // 带 BOM，Excel 打开中文不乱码
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function isoTime(ts: number): string {
+  return new Date(ts).toISOString()
+}
+
+/** 选项和指标在 CSV 中写成 "key=value;key=value" */
+function pairsCell(map: Record<string, string | number>): string {
+  return Object.entries(map).map(([k, v]) => `${k}=${v}`).join(';')
+}
+
+/** 每条训练记录一行 */
+export function recordsToCsv(bundle: DataBundle): string {
+  const gameNames = Object.fromEntries(GAMES.map(g => [g.id, g.name]))
+  return toCsv(
+    ['record_id', 'game_id', 'game_name', 'difficulty', 'score', 'timestamp', 'datetime', 'seed', 'trial_count',
+      'interruption_count', 'paused_ms', 'status', 'progress_round', 'progress_total', 'options', 'metrics'],
+    bundle.records.map(r => [
+      r.id, r.gameId, gameNames[r.gameId], r.difficulty, r.score, r.timestamp, isoTime(r.timestamp), r.seed,
+      bundle.trials[r.id]?.length ?? 0,
+      r.interruptions.length, r.interruptions.reduce((sum, i) => sum + i.duration, 0),
+      r.status, r.progress?.round ?? null, r.progress?.total ?? null,
+      pairsCell(r.options), pairsCell(r.metrics),
+    ]),
+  )
+}
+
+/** 每个试次一行，附带所属记录的游戏和难度，便于 SPSS 长格式分析 */
+export function trialsToCsv(bundle: DataBundle): string {
+  const rows: (string | number | boolean | null)[][] = []
+  for (const r of bundle.records) {
+    for (const t of bundle.trials[r.id] ?? []) {
+      rows.push([
+        r.id, r.gameId, r.difficulty, t.trial, t.stimulus, t.response,
+        t.correct === null ? null : t.correct ? 1 : 0,
+        t.latency, t.stimulusAt, t.responseAt, t.input,
+      ])
+    }
+  }
+  return toCsv(
+    ['record_id', 'game_id', 'difficulty', 'trial', 'stimulus', 'response', 'correct', 'latency_ms', 'stimulus_at', 'response_at', 'input'],
+    rows,
+  )
+}
+
+// ----- 浏览器下载 -----
+
+export function downloadFile(filename: string, content: string, mime: string) {
+  downloadBlob(filename, new Blob([content], { type: mime }))
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function exportFileName(profile: Profile, ext: string, suffix = ''): string {
+  const d = new Date()
+  const date = `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`
+  // 去掉文件名中不允许的字符
+  const name = profile.name.replace(/[\\/:*?"<>|\s]+/g, '_')
+  return `cogpark-${name}-${date}${suffix}.${ext}`
+}
@@ -0,0 +1,59 @@
+import { TrainingRecord } from './storage'
+
+// ===== 训练趋势：滚动平均、个人最佳、按周汇总 =====
+
+export interface TrendPoint {
+  timestamp: number
+  score: number
+  /** 含本次在内最近若干次的平均分 */
+  rolling: number
+  /** 本次是否刷新了此前的最高分 */
+  isBest: boolean
+}
+
+export interface WeekSummary {
+  /** 该周周一 0 点 */
+  weekStart: number
+  mean: number
+  best: number
+  count: number
+}
+
+export const ROLLING_WINDOW = 5
+
+/** records 需为同一游戏、同一难度，按时间从早到晚排列 */
+export function buildTrend(records: TrainingRecord[], window = ROLLING_WINDOW): TrendPoint[] {
+  let best = -Infinity
+  return records.map((r, i) => {
+    const recent = records.slice(Math.max(0, i - window + 1), i + 1)
+    const rolling = recent.reduce((sum, x) => sum + x.score, 0) / recent.length
+    const isBest = r.score > best
+    if (isBest) best = r.score
+    return { timestamp: r.timestamp, score: r.score, rolling: Math.round(rolling), isBest }
+  })
+}
+
+export function weekStartOf(ts: number): number {
+  const d = new Date(ts)
+  d.setHours(0, 0, 0, 0)
+  // getDay()：周日为 0，按周一作为一周的开始
+  d.setDate(d.getDate() - (d.getDay() + 6) % 7)
+  return d.getTime()
+}
+
+export function weeklySummary(records: TrainingRecord[]): WeekSummary[] {
+  const weeks = new Map<number, number[]>()
+  for (const r of records) {
+    const key = weekStartOf(r.timestamp)
+    if (!weeks.has(key)) weeks.set(key, [])
+    weeks.get(key)!.push(r.score)
+  }
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([weekStart, scores]) => ({
+      weekStart,
+      mean: Math.round(scores.reduce((sum, s) => sum + s, 0) / scores.length),
+      best: Math.max(...scores),
+      count: scores.length,
+    }))
+}
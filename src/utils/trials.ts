@@ -0,0 +1,56 @@
+import { InputModality, TrialInput } from '../types'
+
+/** 以刺激出现时刻和作答时刻构造一次作答事件；未给出作答时刻时取当前时刻 */
+export function respondedTrial(
+  stimulus: string,
+  stimulusAt: number,
+  response: string,
+  correct: boolean | null,
+  input: InputModality,
+  responseAt = Date.now(),
+): TrialInput {
+  return {
+    stimulus,
+    response,
+    correct,
+    latency: responseAt - stimulusAt,
+    stimulusAt,
+    responseAt,
+    input,
+  }
+}
+
+/** 超时未作答的事件；No-Go 等应当忍住不按的试次 correct 传 true */
+export function missedTrial(stimulus: string, stimulusAt: number, correct = false): TrialInput {
+  return {
+    stimulus,
+    response: null,
+    correct,
+    latency: null,
+    stimulusAt,
+    responseAt: null,
+    input: null,
+  }
+}
+
+export interface RtSummary {
+  /** 平均反应时 (ms) */
+  mean: number
+  /** 样本标准差 (ms) */
+  sd: number
+  /** 变异系数 (%)，即 sd / mean，反映个体内反应时的波动 */
+  cv: number
+}
+
+/** 一组反应时的均值、标准差和变异系数，不足两个时标准差记 0 */
+export function rtSummary(latencies: number[]): RtSummary {
+  const n = latencies.length
+  if (n === 0) return { mean: 0, sd: 0, cv: 0 }
+  const mean = latencies.reduce((sum, t) => sum + t, 0) / n
+  const sd = n > 1 ? Math.sqrt(latencies.reduce((sum, t) => sum + (t - mean) ** 2, 0) / (n - 1)) : 0
+  return {
+    mean: Math.round(mean),
+    sd: Math.round(sd),
+    cv: mean > 0 ? Math.round((sd / mean) * 1000) / 10 : 0,
+  }
+}
@@ -0,0 +1,129 @@
+import banksData from '../data/wordBanks.json'
+
+// ===== 词语分类的词库：内置主题词库，以及治疗师从 JSON 文件导入的自定义词库 =====
+
+/** 熟悉度：1 日常常用，2 较常见，3 较少见 */
+export type Familiarity = 1 | 2 | 3
+
+export interface WordEntry {
+  text: string
+  familiarity: Familiarity
+}
+
+export interface WordCategory {
+  name: string
+  words: WordEntry[]
+}
+
+export interface WordBank {
+  name: string
+  categories: WordCategory[]
+}
+
+/** 至少两个类别才能分类；最多九个，对应数字键 1-9 */
+export const MIN_CATEGORIES = 2
+export const MAX_CATEGORIES = 9
+export const MIN_WORDS_PER_CATEGORY = 3
+/** 显示在按钮和题目上，过长会撑破布局 */
+export const MAX_TEXT_LENGTH = 12
+
+export class WordBankError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WordBankError'
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validText(value: unknown, what: string): string {
+  if (typeof value !== 'string' || value.trim() === '') throw new WordBankError(`${what}为空`)
+  const text = value.trim()
+  if (text.length > MAX_TEXT_LENGTH) throw new WordBankError(`${what}“${text}”超过 ${MAX_TEXT_LENGTH} 个字`)
+  return text
+}
+
+/** 词语可以直接写成字符串（视为日常常用），也可以写成 { text, familiarity } */
+function validateWord(value: unknown, where: string): WordEntry {
+  if (typeof value === 'string') return { text: validText(value, `${where}的词语`), familiarity: 1 }
+  if (!isObject(value)) throw new WordBankError(`${where}的词语格式错误`)
+  const text = validText(value.text, `${where}的词语`)
+  const familiarity = value.familiarity ?? 1
+  if (familiarity !== 1 && familiarity !== 2 && familiarity !== 3) {
+    throw new WordBankError(`词语“${text}”的熟悉度应为 1、2 或 3`)
+  }
+  return { text, familiarity }
+}
+
+function validateCategory(value: unknown, index: number): WordCategory {
+  if (!isObject(value)) throw new WordBankError(`第 ${index + 1} 个类别格式错误`)
+  const name = validText(value.name, `第 ${index + 1} 个类别的名称`)
+  const where = `类别“${name}”`
+  if (!Array.isArray(value.words)) throw new WordBankError(`${where}缺少词语列表`)
+  const words = value.words.map(w => validateWord(w, where))
+  if (words.length < MIN_WORDS_PER_CATEGORY) {
+    throw new WordBankError(`${where}至少需要 ${MIN_WORDS_PER_CATEGORY} 个词语`)
+  }
+  return { name, words }
+}
+
+/**
+ * 校验词库并返回规范化后的内容，不合法时抛出 WordBankError。
+ * 同一个词出现在两个类别中无法判定对错，也视为错误。
+ */
+export function validateWordBank(raw: unknown): WordBank {
+  if (!isObject(raw)) throw new WordBankError('词库格式错误')
+  const name = validText(raw.name, '词库名称')
+  if (!Array.isArray(raw.categories)) throw new WordBankError('词库缺少类别列表')
+  const categories = raw.categories.map(validateCategory)
+  if (categories.length < MIN_CATEGORIES || categories.length > MAX_CATEGORIES) {
+    throw new WordBankError(`类别数应在 ${MIN_CATEGORIES}-${MAX_CATEGORIES} 个之间`)
+  }
+
+  const categoryNames = new Set<string>()
+  const seen = new Map<string, string>()
+  for (const category of categories) {
+    if (categoryNames.has(category.name)) throw new WordBankError(`类别“${category.name}”重复`)
+    categoryNames.add(category.name)
+    for (const { text } of category.words) {
+      const other = seen.get(text)
+      if (other !== undefined) throw new WordBankError(`词语“${text}”同时出现在“${other}”和“${category.name}”中`)
+      seen.set(text, category.name)
+    }
+  }
+  return { name, categories }
+}
+
+interface BanksFile {
+  version: number
+  note: string
+  banks: (WordBank & { id: string })[]
+}
+
+/** 内置词库，顺序即选项顺序，第一个为默认 */
+export const BUILT_IN_BANKS: { id: string; bank: WordBank }[] = (banksData as BanksFile).banks.map(b => ({
+  id: b.id,
+  bank: validateWordBank(b),
+}))
+
+/** 选择自定义词库时的选项取值 */
+export const CUSTOM_BANK_ID = 'custom'
+
+// 自定义词库保存在本机数据库中，由 storage 读写时同步到这里，供游戏开局时同步取用
+let customBank: WordBank | null = null
+
+export function setCustomWordBank(bank: WordBank | null) {
+  customBank = bank
+}
+
+/** 按选项取词库；自定义词库尚未导入或未知的 id 退回默认词库 */
+export function resolveWordBank(bankId: string | undefined): WordBank {
+  if (bankId === CUSTOM_BANK_ID && customBank) return customBank
+  return (BUILT_IN_BANKS.find(b => b.id === bankId) ?? BUILT_IN_BANKS[0]).bank
+}
+
+export function countWords(bank: WordBank): number {
+  return bank.categories.reduce((sum, c) => sum + c.words.length, 0)
+}